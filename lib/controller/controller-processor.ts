@@ -1,37 +1,81 @@
 import {RouteManager} from '../routing/route-manager';
 import {Route} from '../interfaces';
-import {getValidationMetadata, compileValidator} from '../validation';
+import {
+  getValidationMetadata,
+  compileValidator,
+  compileQueryCoercer,
+  compileTransformer,
+} from '../validation';
+import {getMiddlewares} from '../middleware/middleware';
+import {getGuards, resolveGuards} from '../guards/guards';
+import {
+  getInterceptors,
+  InterceptorType,
+  resolveInterceptors,
+} from '../interceptors/interceptors';
+import {getFilters, resolveFilters} from '../filters/filters';
+import {createParamsHandler, getParams} from '../params/params';
+
+/**
+ * Application-wide enhancers registered on MuzuServer, applied before the
+ * controller- and route-level ones
+ */
+export interface GlobalEnhancers {
+  middlewares?: Function[];
+  interceptors?: InterceptorType[];
+}
 
 export function processController(
   target: any,
   basePath: string,
-  routeManager: RouteManager
+  routeManager: RouteManager,
+  globals: GlobalEnhancers = {}
 ): void {
   const controllerInstance = new target();
   const properties = Object.getOwnPropertyNames(target.prototype);
+  const controllerMiddlewares = getMiddlewares(target);
+  const controllerGuards = getGuards(target);
+  const controllerInterceptors = getInterceptors(target);
+  const controllerFilters = getFilters(target);
+  const globalMiddlewares = globals.middlewares || [];
+  const globalInterceptors = globals.interceptors || [];
 
   const routes: (Route | undefined)[] = properties.map(property => {
     const routeHandler = target.prototype[property];
     const method = Reflect.getMetadata('method', routeHandler);
     const url = Reflect.getMetadata('url', routeHandler);
-    const middlewares = Reflect.getMetadata('middlewares', routeHandler);
-
     if (!method || !url) return;
 
+    const middlewares = [
+      ...globalMiddlewares,
+      ...controllerMiddlewares,
+      ...getMiddlewares(routeHandler),
+    ];
+
     const fullPath = joinPaths(basePath, url);
 
+    const params = getParams(routeHandler);
     const handlerSource = routeHandler.toString();
     const hasQueryParams =
       handlerSource.includes('req.params') ||
-      handlerSource.includes('req.query');
+      handlerSource.includes('req.query') ||
+      params.length > 0;
 
     const validationMeta = getValidationMetadata(target.prototype, property);
     let bodyValidator;
+    let bodyTransformer;
     let queryValidator;
+    let queryCoercer;
 
     if (validationMeta.bodyDto) {
       try {
-        bodyValidator = compileValidator(validationMeta.bodyDto);
+        bodyValidator = compileValidator(
+          validationMeta.bodyDto,
+          validationMeta.bodyOptions
+        );
+        if (validationMeta.bodyOptions?.transform) {
+          bodyTransformer = compileTransformer(validationMeta.bodyDto);
+        }
       } catch (error) {
         console.warn(
           `⚠️  Failed to compile body validator for ${method.toUpperCase()} ${fullPath}:`,
@@ -43,6 +87,7 @@ export function processController(
     if (validationMeta.queryDto) {
       try {
         queryValidator = compileValidator(validationMeta.queryDto);
+        queryCoercer = compileQueryCoercer(validationMeta.queryDto);
       } catch (error) {
         console.warn(
           `⚠️  Failed to compile query validator for ${method.toUpperCase()} ${fullPath}:`,
@@ -54,12 +99,30 @@ export function processController(
     return {
       method,
       url: fullPath,
-      handler: routeHandler.bind(controllerInstance),
+      handler:
+        params.length > 0
+          ? createParamsHandler(routeHandler, controllerInstance, params)
+          : routeHandler.bind(controllerInstance),
       originalHandler: routeHandler,
       middlewares,
       hasQueryParams,
       bodyValidator,
+      bodyTransformer,
       queryValidator,
+      queryCoercer,
+      controller: target,
+      controllerName: target.name,
+      handlerName: property,
+      guards: resolveGuards([...controllerGuards, ...getGuards(routeHandler)]),
+      interceptors: resolveInterceptors([
+        ...globalInterceptors,
+        ...controllerInterceptors,
+        ...getInterceptors(routeHandler),
+      ]),
+      filters: resolveFilters([
+        ...getFilters(routeHandler),
+        ...controllerFilters,
+      ]),
     } as Route;
   });
 
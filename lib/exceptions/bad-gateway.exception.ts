@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class BadGatewayException extends MuzuException {
+  public readonly status: number = HttpStatus.BAD_GATEWAY;
+  constructor(
+    message = 'Bad Gateway!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.BAD_GATEWAY, message, details);
+    this.headers = {...headers};
+  }
+}
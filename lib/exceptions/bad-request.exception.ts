@@ -1,12 +1,14 @@
 import {HttpStatus} from '../constants/http-status';
-import {MuzuException} from './muzu.exception';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
 
 export class BadRequestException extends MuzuException {
   public readonly status: number = HttpStatus.BAD_REQUEST;
   constructor(
     readonly message: string = 'Bad Request!',
-    readonly details?: any
+    readonly details?: any,
+    headers?: ExceptionHeaders
   ) {
     super(HttpStatus.BAD_REQUEST, message, details);
+    this.headers = {...headers};
   }
 }
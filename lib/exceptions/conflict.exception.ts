@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class ConflictException extends MuzuException {
+  public readonly status: number = HttpStatus.CONFLICT;
+  constructor(
+    message = 'Conflict!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.CONFLICT, message, details);
+    this.headers = {...headers};
+  }
+}
@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class ForbiddenException extends MuzuException {
+  public readonly status: number = HttpStatus.FORBIDDEN;
+  constructor(
+    message = 'Forbidden!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.FORBIDDEN, message, details);
+    this.headers = {...headers};
+  }
+}
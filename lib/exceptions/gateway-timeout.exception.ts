@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class GatewayTimeoutException extends MuzuException {
+  public readonly status: number = HttpStatus.GATEWAY_TIMEOUT;
+  constructor(
+    message = 'Gateway Timeout!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.GATEWAY_TIMEOUT, message, details);
+    this.headers = {...headers};
+  }
+}
@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class GoneException extends MuzuException {
+  public readonly status: number = HttpStatus.GONE;
+  constructor(
+    message = 'Gone!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.GONE, message, details);
+    this.headers = {...headers};
+  }
+}
@@ -1,11 +1,13 @@
-import {MuzuException} from './muzu.exception';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
 
 export class HttpException extends MuzuException {
   constructor(
     readonly status: number,
     readonly message: string,
-    readonly details?: any
+    readonly details?: any,
+    headers?: ExceptionHeaders
   ) {
     super(status, message, details);
+    this.headers = {...headers};
   }
 }
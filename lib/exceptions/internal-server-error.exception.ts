@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class InternalServerErrorException extends MuzuException {
+  public readonly status: number = HttpStatus.INTERNAL_SERVER_ERROR;
+  constructor(
+    message = 'Internal Server Error!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.INTERNAL_SERVER_ERROR, message, details);
+    this.headers = {...headers};
+  }
+}
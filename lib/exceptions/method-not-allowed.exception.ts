@@ -0,0 +1,15 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class MethodNotAllowedException extends MuzuException {
+  public readonly status: number = HttpStatus.METHOD_NOT_ALLOWED;
+  constructor(
+    readonly allowedMethods: string[],
+    message = 'Method Not Allowed!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.METHOD_NOT_ALLOWED, message, details);
+    this.headers = {Allow: allowedMethods.join(', '), ...headers};
+  }
+}
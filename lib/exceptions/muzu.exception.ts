@@ -1,4 +1,12 @@
+export type ExceptionHeaders = Record<string, string>;
+
 export class MuzuException extends Error {
+  /**
+   * Response headers sent with the exception (e.g. `WWW-Authenticate`,
+   * `Retry-After`). They are not part of the response body
+   */
+  public headers: ExceptionHeaders = {};
+
   constructor(
     readonly status: number,
     readonly message: string,
@@ -7,4 +15,10 @@ export class MuzuException extends Error {
   ) {
     super(message);
   }
+
+  toJSON(): object {
+    const body: Partial<this> = {...this};
+    delete body.headers;
+    return body;
+  }
 }
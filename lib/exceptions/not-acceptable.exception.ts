@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class NotAcceptableException extends MuzuException {
+  public readonly status: number = HttpStatus.NOT_ACCEPTABLE;
+  constructor(
+    message = 'Not Acceptable!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.NOT_ACCEPTABLE, message, details);
+    this.headers = {...headers};
+  }
+}
@@ -1,9 +1,14 @@
 import {HttpStatus} from '../constants/http-status';
-import {MuzuException} from './muzu.exception';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
 
 export class NotFoundException extends MuzuException {
   public readonly status: number = HttpStatus.NOT_FOUND;
-  constructor(message = 'Not Found!', readonly details?: any) {
+  constructor(
+    message = 'Not Found!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
     super(HttpStatus.NOT_FOUND, message, details);
+    this.headers = {...headers};
   }
 }
@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class NotImplementedException extends MuzuException {
+  public readonly status: number = HttpStatus.NOT_IMPLEMENTED;
+  constructor(
+    message = 'Not Implemented!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.NOT_IMPLEMENTED, message, details);
+    this.headers = {...headers};
+  }
+}
@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class PayloadTooLargeException extends MuzuException {
+  public readonly status: number = HttpStatus.PAYLOAD_TOO_LARGE;
+  constructor(
+    message = 'Payload Too Large!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.PAYLOAD_TOO_LARGE, message, details);
+    this.headers = {...headers};
+  }
+}
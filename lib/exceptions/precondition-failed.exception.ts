@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class PreconditionFailedException extends MuzuException {
+  public readonly status: number = HttpStatus.PRECONDITION_FAILED;
+  constructor(
+    message = 'Precondition Failed!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.PRECONDITION_FAILED, message, details);
+    this.headers = {...headers};
+  }
+}
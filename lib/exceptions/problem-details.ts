@@ -0,0 +1,59 @@
+import {STATUS_CODES} from 'http';
+import {MuzuException} from './muzu.exception';
+import {ValidationException} from './validation.exception';
+import {MethodNotAllowedException} from './method-not-allowed.exception';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * RFC 7807 problem details document. Extension members sit next to the
+ * standard members
+ */
+export interface ProblemDetails {
+  type: string;
+  title: string;
+  status: number;
+  detail?: string;
+  instance?: string;
+  [extension: string]: unknown;
+}
+
+export function createProblemDetails(
+  status: number,
+  detail?: string,
+  instance?: string,
+  extensions: Record<string, unknown> = {}
+): ProblemDetails {
+  return {
+    type: 'about:blank',
+    title: STATUS_CODES[status] || 'Unknown Error',
+    status,
+    detail,
+    instance,
+    ...extensions,
+  };
+}
+
+export function exceptionToProblemDetails(
+  exception: MuzuException,
+  instance?: string
+): ProblemDetails {
+  const extensions: Record<string, unknown> = {};
+
+  if (exception instanceof ValidationException) {
+    extensions.errors = exception.errors;
+  }
+  if (exception instanceof MethodNotAllowedException) {
+    extensions.allowedMethods = exception.allowedMethods;
+  }
+  if (exception.details !== undefined) {
+    extensions.details = exception.details;
+  }
+
+  return createProblemDetails(
+    exception.status,
+    exception.message,
+    instance,
+    extensions
+  );
+}
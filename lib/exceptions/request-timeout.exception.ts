@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class RequestTimeoutException extends MuzuException {
+  public readonly status: number = HttpStatus.REQUEST_TIMEOUT;
+  constructor(
+    message = 'Request Timeout!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.REQUEST_TIMEOUT, message, details);
+    this.headers = {...headers};
+  }
+}
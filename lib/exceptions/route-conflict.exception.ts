@@ -0,0 +1,9 @@
+/**
+ * Thrown at startup when two routes cannot coexist in the route tree
+ */
+export class RouteConflictException extends Error {
+  constructor(readonly message: string) {
+    super(message);
+    this.name = 'RouteConflictException';
+  }
+}
@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class ServiceUnavailableException extends MuzuException {
+  public readonly status: number = HttpStatus.SERVICE_UNAVAILABLE;
+  constructor(
+    message = 'Service Unavailable!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.SERVICE_UNAVAILABLE, message, details);
+    this.headers = {...headers};
+  }
+}
@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class TooManyRequestsException extends MuzuException {
+  public readonly status: number = HttpStatus.TOO_MANY_REQUESTS;
+  constructor(
+    message = 'Too Many Requests!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.TOO_MANY_REQUESTS, message, details);
+    this.headers = {...headers};
+  }
+}
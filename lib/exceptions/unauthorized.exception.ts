@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class UnauthorizedException extends MuzuException {
+  public readonly status: number = HttpStatus.UNAUTHORIZED;
+  constructor(
+    message = 'Unauthorized!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.UNAUTHORIZED, message, details);
+    this.headers = {...headers};
+  }
+}
@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class UnprocessableEntityException extends MuzuException {
+  public readonly status: number = HttpStatus.UNPROCESSABLE_ENTITY;
+  constructor(
+    message = 'Unprocessable Entity!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.UNPROCESSABLE_ENTITY, message, details);
+    this.headers = {...headers};
+  }
+}
@@ -0,0 +1,14 @@
+import {HttpStatus} from '../constants/http-status';
+import {ExceptionHeaders, MuzuException} from './muzu.exception';
+
+export class UnsupportedMediaTypeException extends MuzuException {
+  public readonly status: number = HttpStatus.UNSUPPORTED_MEDIA_TYPE;
+  constructor(
+    message = 'Unsupported Media Type!',
+    readonly details?: any,
+    headers?: ExceptionHeaders
+  ) {
+    super(HttpStatus.UNSUPPORTED_MEDIA_TYPE, message, details);
+    this.headers = {...headers};
+  }
+}
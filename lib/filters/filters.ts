@@ -0,0 +1,104 @@
+import {ExceptionFilter} from '../interfaces';
+
+export type ExceptionFilterType = ExceptionFilter | (new () => ExceptionFilter);
+
+export type FiltersDecorator = (
+  target: any,
+  propertyKey?: string,
+  descriptor?: PropertyDescriptor
+) => any;
+
+/**
+ * Declares which error types an exception filter handles
+ * A filter without @Catch (or with an empty list) handles every error
+ *
+ * @param exceptions - Error classes matched with instanceof
+ *
+ * @example
+ * ```typescript
+ * import { Catch, ExceptionFilter, ExceptionContext, NotFoundException } from 'muzu';
+ *
+ * @Catch(EntityNotFound)
+ * class EntityNotFoundFilter implements ExceptionFilter<EntityNotFound> {
+ *   catch(exception: EntityNotFound, context: ExceptionContext) {
+ *     return new NotFoundException(exception.message);
+ *   }
+ * }
+ * ```
+ */
+export function Catch(...exceptions: Function[]): ClassDecorator {
+  return (target: any) => {
+    Reflect.defineMetadata('catch', exceptions, target);
+    return target;
+  };
+}
+
+/**
+ * Global UseFilters decorator
+ * Attaches exception filters to a route handler, or to every route of a
+ * controller when applied to the class. Filters accept either a class
+ * (instantiated once at startup) or an instance.
+ *
+ * Lookup order: route → controller → global. The first filter whose @Catch
+ * types match the thrown error handles it.
+ */
+export function UseFilters(
+  ...filters: ExceptionFilterType[]
+): FiltersDecorator {
+  return (
+    target: any,
+    propertyKey?: string,
+    descriptor?: PropertyDescriptor
+  ) => {
+    if (propertyKey && descriptor) {
+      // Method decorator
+      Reflect.defineMetadata('filters', filters, target[propertyKey]);
+      return descriptor;
+    } else {
+      // Class decorator
+      Reflect.defineMetadata('filters', filters, target);
+      return target;
+    }
+  };
+}
+
+/**
+ * Gets the exception filters attached to a controller class or route handler
+ */
+export function getFilters(target: any): ExceptionFilterType[] {
+  return Reflect.getMetadata('filters', target) || [];
+}
+
+/**
+ * Gets the error types an exception filter handles
+ */
+export function getCatchTypes(filter: ExceptionFilter): Function[] {
+  return Reflect.getMetadata('catch', filter.constructor) || [];
+}
+
+/**
+ * Instantiates filter classes so each request reuses the same instances
+ */
+export function resolveFilters(
+  filters: ExceptionFilterType[]
+): ExceptionFilter[] {
+  return filters.map(filter =>
+    typeof filter === 'function' ? new filter() : filter
+  );
+}
+
+/**
+ * Finds the first filter able to handle the given error
+ */
+export function findExceptionFilter(
+  filters: ExceptionFilter[],
+  exception: unknown
+): ExceptionFilter | undefined {
+  return filters.find(filter => {
+    const catchTypes = getCatchTypes(filter);
+    return (
+      catchTypes.length === 0 ||
+      catchTypes.some(type => exception instanceof type)
+    );
+  });
+}
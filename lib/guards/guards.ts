@@ -0,0 +1,74 @@
+import {CanActivate} from '../interfaces';
+
+export type GuardType = CanActivate | (new () => CanActivate);
+
+export type GuardsDecorator = (
+  target: any,
+  propertyKey?: string,
+  descriptor?: PropertyDescriptor
+) => any;
+
+/**
+ * Global UseGuards decorator
+ * Attaches guards to a route handler, or to every route of a controller when
+ * applied to the class. Guards accept either a class (instantiated once at
+ * startup) or an instance.
+ *
+ * Execution order: controller → route. The first guard that returns false
+ * rejects the request with a 403 ForbiddenException.
+ *
+ * @param guards - One or more guards implementing CanActivate
+ *
+ * @example
+ * ```typescript
+ * import { Controller, Get, UseGuards, CanActivate, ExecutionContext } from 'muzu';
+ *
+ * class AuthGuard implements CanActivate {
+ *   canActivate({req}: ExecutionContext) {
+ *     return !!req.headers.authorization;
+ *   }
+ * }
+ *
+ * @Controller('/api')
+ * @UseGuards(AuthGuard)
+ * export class UserController {
+ *   @Get('/users')
+ *   getUsers() {
+ *     return { users: [] };
+ *   }
+ * }
+ * ```
+ */
+export function UseGuards(...guards: GuardType[]): GuardsDecorator {
+  return (
+    target: any,
+    propertyKey?: string,
+    descriptor?: PropertyDescriptor
+  ) => {
+    if (propertyKey && descriptor) {
+      // Method decorator
+      Reflect.defineMetadata('guards', guards, target[propertyKey]);
+      return descriptor;
+    } else {
+      // Class decorator
+      Reflect.defineMetadata('guards', guards, target);
+      return target;
+    }
+  };
+}
+
+/**
+ * Gets the guards attached to a controller class or route handler
+ */
+export function getGuards(target: any): GuardType[] {
+  return Reflect.getMetadata('guards', target) || [];
+}
+
+/**
+ * Instantiates guard classes so each request reuses the same instances
+ */
+export function resolveGuards(guards: GuardType[]): CanActivate[] {
+  return guards.map(guard =>
+    typeof guard === 'function' ? new guard() : guard
+  );
+}
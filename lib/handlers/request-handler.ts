@@ -1,32 +1,321 @@
 import {HttpStatus} from '../constants/http-status';
-import {Request} from '../interfaces';
-import {Response} from '../types';
+import {randomUUID} from 'crypto';
+import {
+  ErrorReport,
+  ExceptionFilter,
+  ExecutionContext,
+  Request,
+} from '../interfaces';
+import {
+  ErrorFormat,
+  ErrorReporter,
+  RequestMethod,
+  Response,
+  ServerMode,
+} from '../types';
 import {RouteManager} from '../routing/route-manager';
 import {NotFoundException} from '../exceptions/not-found.exception';
+import {MethodNotAllowedException} from '../exceptions/method-not-allowed.exception';
 import {getRequestBody} from '../utils';
 import {MuzuException} from '../exceptions/muzu.exception';
 import {BadRequestException} from '../exceptions/bad-request.exception';
 import {ValidationException} from '../exceptions/validation.exception';
+import {ForbiddenException} from '../exceptions/forbidden.exception';
+import {RouteMetadata} from '../routing/route-metadata';
+import {findExceptionFilter} from '../filters/filters';
+import {
+  PROBLEM_CONTENT_TYPE,
+  createProblemDetails,
+  exceptionToProblemDetails,
+} from '../exceptions/problem-details';
+import {
+  MessageCatalog,
+  selectMessageCatalog,
+  ValidationMessagesOptions,
+} from '../validation';
 
 const JSON_HEADERS = {'Content-Type': 'application/json'};
 
+export interface RequestHandlerOptions {
+  mode?: ServerMode;
+  errorReporter?: ErrorReporter;
+  errorFormat?: ErrorFormat;
+  validationMessages?: ValidationMessagesOptions;
+}
+
 export class RequestHandler {
   private routeManager: RouteManager;
+  private readonly globalFilters: ExceptionFilter[] = [];
+  private readonly mode: ServerMode;
+  private readonly errorReporter?: ErrorReporter;
+  private readonly errorFormat: ErrorFormat;
+  private readonly validationMessages?: ValidationMessagesOptions;
 
-  constructor(routeManager: RouteManager) {
+  constructor(routeManager: RouteManager, options: RequestHandlerOptions = {}) {
     this.routeManager = routeManager;
+    this.mode =
+      options.mode ??
+      (process.env.NODE_ENV === 'production' ? 'production' : 'development');
+    this.errorReporter = options.errorReporter;
+    this.errorFormat = options.errorFormat ?? 'default';
+    this.validationMessages = options.validationMessages;
+  }
+
+  /**
+   * Selects the validation message catalog from the Accept-Language header
+   */
+  private getMessageCatalog(req: Request): MessageCatalog | undefined {
+    if (!this.validationMessages) return undefined;
+    return selectMessageCatalog(
+      req.headers['accept-language'],
+      this.validationMessages
+    );
+  }
+
+  /**
+   * Registers exception filters consulted after route and controller filters
+   */
+  public useFilters(...filters: ExceptionFilter[]): void {
+    this.globalFilters.push(...filters);
   }
 
   private async sendResponse(
     res: Response,
     statusCode: number,
-    body: Object
+    body: Object,
+    headers: Record<string, string> = JSON_HEADERS
   ): Promise<void> {
-    res.writeHead(statusCode, JSON_HEADERS);
+    res.writeHead(statusCode, headers);
     res.end(JSON.stringify(body));
   }
 
+  private sendOptionsResponse(res: Response, allowedMethods: string[]): void {
+    res.writeHead(HttpStatus.NO_CONTENT, {Allow: allowedMethods.join(', ')});
+    res.end();
+  }
+
+  private createExecutionContext(
+    metadata: RouteMetadata,
+    req: Request,
+    res: Response
+  ): ExecutionContext {
+    return {
+      req,
+      res,
+      controller: metadata.controller,
+      handler: metadata.originalHandler || metadata.handler,
+    };
+  }
+
+  private async callHandler(
+    metadata: RouteMetadata,
+    req: Request,
+    res: Response
+  ): Promise<unknown> {
+    if (!metadata.composedInterceptor) {
+      return metadata.handler(req, res);
+    }
+
+    return metadata.composedInterceptor(
+      this.createExecutionContext(metadata, req, res),
+      async () => metadata.handler(req, res)
+    );
+  }
+
+  private async runGuards(
+    metadata: RouteMetadata,
+    req: Request,
+    res: Response
+  ): Promise<void> {
+    const context = this.createExecutionContext(metadata, req, res);
+
+    for (const guard of metadata.guards!) {
+      const canActivate = await guard.canActivate(context);
+      if (!canActivate) {
+        throw new ForbiddenException('Forbidden resource');
+      }
+    }
+  }
+
+  private getErrorHeaders(): Record<string, string> {
+    return this.errorFormat === 'problem'
+      ? {'Content-Type': PROBLEM_CONTENT_TYPE}
+      : JSON_HEADERS;
+  }
+
+  private getExceptionHeaders(error: MuzuException): Record<string, string> {
+    return {...this.getErrorHeaders(), ...error.headers};
+  }
+
+  private async handleException(
+    error: unknown,
+    req: Request,
+    res: Response,
+    metadata?: RouteMetadata
+  ): Promise<void> {
+    const filters = metadata?.filters
+      ? [...metadata.filters, ...this.globalFilters]
+      : this.globalFilters;
+    const filter = findExceptionFilter(filters, error);
+
+    if (filter) {
+      try {
+        const result = await filter.catch(error, {
+          req,
+          res,
+          controller: metadata?.controller,
+          handler: metadata?.originalHandler || metadata?.handler,
+        });
+
+        if (res.writableEnded) return;
+
+        if (result instanceof MuzuException) {
+          error = result;
+        } else if (result !== undefined) {
+          const statusCode = res.statusCode || HttpStatus.OK;
+          return this.sendResponse(res, statusCode, result as Object);
+        }
+      } catch (filterError) {
+        if (res.writableEnded) return;
+        error = filterError;
+      }
+    }
+
+    return this.sendException(req, res, error);
+  }
+
+  private async sendException(
+    req: Request,
+    res: Response,
+    error: unknown
+  ): Promise<void> {
+    const knownError = error as MuzuException;
+
+    if (knownError.kind === 'MuzuException') {
+      const body =
+        this.errorFormat === 'problem'
+          ? exceptionToProblemDetails(knownError, req.url)
+          : knownError;
+      return this.sendResponse(
+        res,
+        knownError.status,
+        body,
+        this.getExceptionHeaders(knownError)
+      );
+    }
+
+    const correlationId = this.getCorrelationId(req);
+    this.reportError(error, {correlationId, req});
+
+    const extensions: Record<string, unknown> = {correlationId};
+    if (this.mode !== 'production') {
+      extensions.stack = knownError.stack;
+    }
+
+    const body =
+      this.errorFormat === 'problem'
+        ? createProblemDetails(
+            HttpStatus.INTERNAL_SERVER_ERROR,
+            'An unexpected error occurred',
+            req.url,
+            extensions
+          )
+        : {message: 'Internal Server Error', ...extensions};
+
+    return this.sendResponse(
+      res,
+      HttpStatus.INTERNAL_SERVER_ERROR,
+      body,
+      this.getErrorHeaders()
+    );
+  }
+
+  private getCorrelationId(req: Request): string {
+    const requestId = req.headers['x-request-id'];
+    return typeof requestId === 'string' && requestId
+      ? requestId
+      : randomUUID();
+  }
+
+  /**
+   * Hands the full error to the configured reporter without delaying or
+   * breaking the response
+   */
+  private reportError(error: unknown, report: ErrorReport): void {
+    if (!this.errorReporter) return;
+
+    try {
+      const result = this.errorReporter(error, report);
+      if (result instanceof Promise) {
+        result.catch(reporterError => {
+          console.warn('⚠️  Error reporter failed:', reporterError);
+        });
+      }
+    } catch (reporterError) {
+      console.warn('⚠️  Error reporter failed:', reporterError);
+    }
+  }
+
+  /**
+   * Runs everything inside the middleware chain: guards, query and body
+   * validation, then interceptors and the handler
+   */
+  private async processRequest(
+    metadata: RouteMetadata,
+    req: Request,
+    res: Response
+  ): Promise<unknown> {
+    if (metadata.guards) {
+      await this.runGuards(metadata, req, res);
+    }
+
+    if (metadata.queryCoercer) {
+      req.query = metadata.queryCoercer(req.query!);
+      req.params = {...req.query, ...req.pathParams};
+    }
+
+    if (metadata.queryValidator && req.params) {
+      const queryErrors = await metadata.queryValidator(
+        req.params,
+        this.getMessageCatalog(req)
+      );
+      if (queryErrors.length > 0) {
+        throw new ValidationException(queryErrors, 'Query validation failed');
+      }
+    }
+
+    if (metadata.requiresBody) {
+      try {
+        req.body = await getRequestBody(req);
+      } catch (error) {
+        const err = error as MuzuException;
+        throw new BadRequestException('Error parsing body', err.details);
+      }
+
+      if (metadata.bodyTransformer) {
+        req.body = metadata.bodyTransformer(req.body) as Request['body'];
+      }
+
+      if (metadata.bodyValidator && req.body) {
+        const bodyErrors = await metadata.bodyValidator(
+          req.body,
+          this.getMessageCatalog(req)
+        );
+        if (bodyErrors.length > 0) {
+          throw new ValidationException(bodyErrors, 'Body validation failed');
+        }
+      }
+    }
+
+    if (metadata.composedInterceptor) {
+      return this.callHandler(metadata, req, res);
+    }
+    return metadata.handler(req, res);
+  }
+
   public async handleRequest(req: Request, res: Response): Promise<void> {
+    let metadata: RouteMetadata | undefined;
+
     try {
       const {url, method} = req;
 
@@ -35,63 +324,50 @@ export class RequestHandler {
       if (!searchResult.metadata) {
         const queryIndex = url!.indexOf('?');
         const path = queryIndex === -1 ? url! : url!.substring(0, queryIndex);
+
+        const allowedMethods = this.routeManager.getAllowedMethods(path);
+        if (allowedMethods.length > 0 && method === RequestMethod.OPTIONS) {
+          return this.sendOptionsResponse(res, allowedMethods);
+        }
+
+        if (allowedMethods.length > 0) {
+          throw new MethodNotAllowedException(
+            allowedMethods,
+            `Method ${method} not allowed for ${path}`,
+            {method, path}
+          );
+        }
+
         throw new NotFoundException(`Route ${method} ${path} not found`, {
           method,
           path,
         });
       }
 
-      const {metadata} = searchResult;
+      metadata = searchResult.metadata;
+      const routeMetadata = metadata;
 
       const parsed = metadata.pathParser(url!);
+      req.pathParams = searchResult.params;
+      req.query = parsed.queryParams;
       req.params = {...parsed.queryParams, ...searchResult.params};
 
-      if (metadata.queryValidator && req.params) {
-        const queryErrors = metadata.queryValidator(req.params);
-        if (queryErrors.length > 0) {
-          throw new ValidationException(queryErrors, 'Query validation failed');
-        }
-      }
+      // Middleware runs first, so guards can read what it sets (req.user)
+      const result = metadata.composedMiddleware
+        ? ((await metadata.composedMiddleware(req, res, () =>
+            this.processRequest(routeMetadata, req, res)
+          )) as Object)
+        : ((await this.processRequest(routeMetadata, req, res)) as Object);
 
-      if (metadata.requiresBody) {
-        try {
-          req.body = await getRequestBody(req);
-        } catch (error) {
-          const err = error as MuzuException;
-          throw new BadRequestException('Error parsing body', err.details);
-        }
-
-        if (metadata.bodyValidator && req.body) {
-          const bodyErrors = metadata.bodyValidator(req.body);
-          if (bodyErrors.length > 0) {
-            throw new ValidationException(bodyErrors, 'Body validation failed');
-          }
-        }
-      }
-      if (metadata.composedMiddleware) {
-        await metadata.composedMiddleware(req, res);
-      }
-
-      let result: Object;
-      if (metadata.isAsync) {
-        result = await metadata.handler(req, res);
-      } else {
-        result = metadata.handler(req, res);
-      }
+      // A middleware may have already written the response
+      if (res.writableEnded) return;
 
       const statusCode = res.statusCode || HttpStatus.OK;
       return this.sendResponse(res, statusCode, result);
     } catch (error) {
-      const knownError = error as MuzuException;
-
-      if (knownError.kind === 'MuzuException') {
-        return this.sendResponse(res, knownError.status, knownError);
-      }
+      if (res.writableEnded) return;
 
-      return this.sendResponse(res, HttpStatus.INTERNAL_SERVER_ERROR, {
-        message: 'Internal Server Error',
-        stack: knownError.stack,
-      });
+      return this.handleException(error, req, res, metadata);
     }
   }
 }
@@ -3,9 +3,27 @@ import 'reflect-metadata';
 import {createServer, Server, IncomingMessage, ServerResponse} from 'http';
 import {HttpException} from './exceptions/http.exception';
 
-import {Request} from './interfaces';
-import {Response, RouteHandler} from './types';
+import {
+  Request,
+  CanActivate,
+  ExecutionContext,
+  Interceptor,
+  ExceptionFilter,
+  ExceptionContext,
+  ErrorReport,
+  PipeTransform,
+  ArgumentMetadata,
+} from './interfaces';
+import {
+  ErrorFormat,
+  ErrorReporter,
+  NextFunction,
+  Response,
+  RouteHandler,
+  ServerMode,
+} from './types';
 import {RouteManager} from './routing/route-manager';
+import {QueryParserOptions} from './routing/path-parser';
 import {RequestHandler} from './handlers/request-handler';
 import {
   ControllerDecorator,
@@ -15,12 +33,61 @@ import {MethodDecorator, MethodFactory} from './methods/method-factory';
 import {MiddlewareDecorator, MiddlewareFactory} from './middleware/middleware';
 import {getRegisteredControllers} from './controller/controller-registry';
 import {processController} from './controller/controller-processor';
+import {InterceptorType} from './interceptors/interceptors';
+import {ExceptionFilterType, resolveFilters} from './filters/filters';
 import {SwaggerConfig, SwaggerGenerator, generateSwaggerUI} from './swagger';
+import {ValidationMessagesOptions} from './validation';
 
-export {Request, Response, RouteHandler, HttpException};
+export {
+  Request,
+  Response,
+  RouteHandler,
+  NextFunction,
+  HttpException,
+  CanActivate,
+  ExecutionContext,
+  Interceptor,
+  ExceptionFilter,
+  ExceptionContext,
+  ErrorReport,
+  PipeTransform,
+  ArgumentMetadata,
+  ErrorReporter,
+  ErrorFormat,
+  ServerMode,
+};
 
 export interface MuzuServerConfig {
   swagger?: SwaggerConfig;
+  /**
+   * Lets a later route registration shadow an existing one instead of
+   * failing at startup with a RouteConflictException
+   */
+  allowRouteOverride?: boolean;
+  /**
+   * Limits for query string parsing (bracket depth, parameter count,
+   * array index)
+   */
+  queryParser?: QueryParserOptions;
+  /**
+   * `production` hides stack traces from unexpected error responses.
+   * Defaults to `production` when NODE_ENV is `production`
+   */
+  mode?: ServerMode;
+  /**
+   * Receives the full error and correlation id of every unexpected error
+   */
+  errorReporter?: ErrorReporter;
+  /**
+   * `problem` renders error responses as RFC 7807 `application/problem+json`
+   * documents and documents them in the generated OpenAPI spec
+   */
+  errorFormat?: ErrorFormat;
+  /**
+   * Translated validation messages, selected per request from the
+   * Accept-Language header
+   */
+  validationMessages?: ValidationMessagesOptions;
 }
 
 export {
@@ -29,11 +96,56 @@ export {
 } from './exceptions/validation.exception';
 export * from './validation';
 export {HttpStatus} from './constants/http-status';
+export {QueryParserOptions, QueryValue} from './routing/path-parser';
+export {RouteConflictException} from './exceptions/route-conflict.exception';
+export {MuzuException, ExceptionHeaders} from './exceptions/muzu.exception';
+export {BadRequestException} from './exceptions/bad-request.exception';
+export {UnauthorizedException} from './exceptions/unauthorized.exception';
+export {ForbiddenException} from './exceptions/forbidden.exception';
+export {NotFoundException} from './exceptions/not-found.exception';
+export {MethodNotAllowedException} from './exceptions/method-not-allowed.exception';
+export {NotAcceptableException} from './exceptions/not-acceptable.exception';
+export {RequestTimeoutException} from './exceptions/request-timeout.exception';
+export {ConflictException} from './exceptions/conflict.exception';
+export {GoneException} from './exceptions/gone.exception';
+export {PreconditionFailedException} from './exceptions/precondition-failed.exception';
+export {PayloadTooLargeException} from './exceptions/payload-too-large.exception';
+export {UnsupportedMediaTypeException} from './exceptions/unsupported-media-type.exception';
+export {UnprocessableEntityException} from './exceptions/unprocessable-entity.exception';
+export {TooManyRequestsException} from './exceptions/too-many-requests.exception';
+export {InternalServerErrorException} from './exceptions/internal-server-error.exception';
+export {NotImplementedException} from './exceptions/not-implemented.exception';
+export {BadGatewayException} from './exceptions/bad-gateway.exception';
+export {ServiceUnavailableException} from './exceptions/service-unavailable.exception';
+export {GatewayTimeoutException} from './exceptions/gateway-timeout.exception';
+export {
+  ProblemDetails,
+  PROBLEM_CONTENT_TYPE,
+} from './exceptions/problem-details';
 
 // Export global decorators
 export {Controller} from './controller/controller.decorator';
-export {Get, Post, Put, Delete, Patch} from './methods/method-factory';
+export {
+  Get,
+  Post,
+  Put,
+  Delete,
+  Patch,
+  Head,
+  Options,
+  All,
+} from './methods/method-factory';
 export {Middleware} from './middleware/middleware';
+export {UseGuards} from './guards/guards';
+export {UseInterceptors} from './interceptors/interceptors';
+export {Catch, UseFilters} from './filters/filters';
+export {Param, Query, Body, Headers, Req, Res} from './params/params';
+export {PipeType} from './pipes/pipes';
+export {ParseIntPipe} from './pipes/parse-int.pipe';
+export {ParseBoolPipe} from './pipes/parse-bool.pipe';
+export {ParseUUIDPipe, ParseUUIDPipeOptions} from './pipes/parse-uuid.pipe';
+export {ParseEnumPipe} from './pipes/parse-enum.pipe';
+export {DefaultValuePipe} from './pipes/default-value.pipe';
 export {clearRegistry} from './controller/controller-registry';
 
 // Export Swagger/OpenAPI
@@ -43,6 +155,10 @@ export class MuzuServer {
   public readonly server: Server;
   public readonly routeManager: RouteManager;
   public readonly requestHandler: RequestHandler;
+  private readonly globalMiddlewares: Function[] = [];
+  private readonly globalInterceptors: InterceptorType[] = [];
+  private readonly controllerFactory: ControllerFactory;
+  private readonly errorFormat?: ErrorFormat;
   private swaggerConfig?: SwaggerConfig;
   private swaggerSpec?: any;
   /**
@@ -75,11 +191,22 @@ export class MuzuServer {
   public readonly Patch: MethodDecorator;
 
   constructor(config?: MuzuServerConfig | SwaggerConfig) {
-    this.routeManager = new RouteManager();
+    const serverConfig = config && this.isServerConfig(config) ? config : {};
+    this.errorFormat = serverConfig.errorFormat;
+    this.routeManager = new RouteManager({
+      allowOverride: serverConfig.allowRouteOverride,
+      queryParser: serverConfig.queryParser,
+    });
     const methods = new MethodFactory();
 
-    this.Controller = new ControllerFactory(this.routeManager).Controller;
-    this.requestHandler = new RequestHandler(this.routeManager);
+    this.controllerFactory = new ControllerFactory(this.routeManager);
+    this.Controller = this.controllerFactory.Controller;
+    this.requestHandler = new RequestHandler(this.routeManager, {
+      mode: serverConfig.mode,
+      errorReporter: serverConfig.errorReporter,
+      errorFormat: this.errorFormat,
+      validationMessages: serverConfig.validationMessages,
+    });
 
     const middleware = new MiddlewareFactory();
     this.Middleware = middleware.Middleware;
@@ -102,7 +229,7 @@ export class MuzuServer {
   private initializeSwagger(config?: MuzuServerConfig | SwaggerConfig): void {
     if (!config) return;
 
-    // Check if it's the new config format (has 'swagger' key)
+    // Check if it's the new config format (no top-level 'info' key)
     const swaggerConfig = this.isServerConfig(config) ? config.swagger : config;
 
     if (swaggerConfig && swaggerConfig.enabled !== false) {
@@ -113,7 +240,7 @@ export class MuzuServer {
   private isServerConfig(
     config: MuzuServerConfig | SwaggerConfig
   ): config is MuzuServerConfig {
-    return 'swagger' in config;
+    return !('info' in config);
   }
 
   private async handleRequest(
@@ -173,11 +300,43 @@ export class MuzuServer {
     res.end(html);
   }
 
+  /**
+   * Registers global middlewares that run before controller and route
+   * middlewares on every route. Must be called before listen()
+   */
+  public use(...middlewares: Function[]): this {
+    this.globalMiddlewares.push(...middlewares);
+    return this;
+  }
+
+  /**
+   * Registers global interceptors that wrap controller and route interceptors
+   * on every route. Must be called before listen()
+   */
+  public useInterceptors(...interceptors: InterceptorType[]): this {
+    this.globalInterceptors.push(...interceptors);
+    return this;
+  }
+
+  /**
+   * Registers global exception filters, consulted after route and controller
+   * filters. Unlike route filters, they also handle routing errors (404, 405)
+   */
+  public useFilters(...filters: ExceptionFilterType[]): this {
+    this.requestHandler.useFilters(...resolveFilters(filters));
+    return this;
+  }
+
   private loadControllers(): void {
+    const globals = {
+      middlewares: this.globalMiddlewares,
+      interceptors: this.globalInterceptors,
+    };
     const controllers = getRegisteredControllers();
     controllers.forEach(({target, path}) => {
-      processController(target, path, this.routeManager);
+      processController(target, path, this.routeManager, globals);
     });
+    this.controllerFactory.loadControllers(globals);
   }
 
   /**
@@ -188,7 +347,8 @@ export class MuzuServer {
 
     const generator = new SwaggerGenerator(
       this.swaggerConfig,
-      this.routeManager
+      this.routeManager,
+      {errorFormat: this.errorFormat}
     );
     this.swaggerSpec = generator.generate();
 
@@ -0,0 +1,78 @@
+import {Interceptor} from '../interfaces';
+
+export type InterceptorType = Interceptor | (new () => Interceptor);
+
+export type InterceptorsDecorator = (
+  target: any,
+  propertyKey?: string,
+  descriptor?: PropertyDescriptor
+) => any;
+
+/**
+ * Global UseInterceptors decorator
+ * Wraps a route handler, or every route of a controller when applied to the
+ * class, with interceptors. Interceptors accept either a class (instantiated
+ * once at startup) or an instance.
+ *
+ * Execution order (outermost first): global → controller → route
+ *
+ * @param interceptors - One or more interceptors implementing Interceptor
+ *
+ * @example
+ * ```typescript
+ * import { Controller, Get, UseInterceptors, Interceptor } from 'muzu';
+ *
+ * class EnvelopeInterceptor implements Interceptor {
+ *   async intercept(context, next) {
+ *     const data = await next();
+ *     return { data };
+ *   }
+ * }
+ *
+ * @Controller('/api')
+ * @UseInterceptors(EnvelopeInterceptor)
+ * export class UserController {
+ *   @Get('/users')
+ *   getUsers() {
+ *     return [];
+ *   }
+ * }
+ * ```
+ */
+export function UseInterceptors(
+  ...interceptors: InterceptorType[]
+): InterceptorsDecorator {
+  return (
+    target: any,
+    propertyKey?: string,
+    descriptor?: PropertyDescriptor
+  ) => {
+    if (propertyKey && descriptor) {
+      // Method decorator
+      Reflect.defineMetadata('interceptors', interceptors, target[propertyKey]);
+      return descriptor;
+    } else {
+      // Class decorator
+      Reflect.defineMetadata('interceptors', interceptors, target);
+      return target;
+    }
+  };
+}
+
+/**
+ * Gets the interceptors attached to a controller class or route handler
+ */
+export function getInterceptors(target: any): InterceptorType[] {
+  return Reflect.getMetadata('interceptors', target) || [];
+}
+
+/**
+ * Instantiates interceptor classes so each request reuses the same instances
+ */
+export function resolveInterceptors(
+  interceptors: InterceptorType[]
+): Interceptor[] {
+  return interceptors.map(interceptor =>
+    typeof interceptor === 'function' ? new interceptor() : interceptor
+  );
+}
@@ -1,6 +1,11 @@
 import {IncomingMessage} from 'http';
-import {RouteHandler} from '../types';
-import {CompiledValidator} from '../validation';
+import {NextFunction, Response, RouteHandler} from '../types';
+import {
+  CompiledValidator,
+  PayloadTransformer,
+  QueryCoercer,
+} from '../validation';
+import {ParamSource} from '../params/params';
 
 export interface Route {
   method: string;
@@ -10,11 +15,83 @@ export interface Route {
   middlewares?: Function[];
   hasQueryParams?: boolean;
   bodyValidator?: CompiledValidator;
+  bodyTransformer?: PayloadTransformer;
   queryValidator?: CompiledValidator;
+  queryCoercer?: QueryCoercer;
+  controller?: Function;
+  controllerName?: string;
+  handlerName?: string;
+  guards?: CanActivate[];
+  interceptors?: Interceptor[];
+  filters?: ExceptionFilter[];
 }
 
 export interface Request extends IncomingMessage {
-  params?: Record<string, string>;
+  /**
+   * Query and path parameters merged; path parameters win on name clashes
+   */
+  params?: Record<string, any>;
+  pathParams?: Record<string, string>;
+  /**
+   * Parsed query string. Repeated keys become arrays and bracketed keys
+   * nested objects; values are converted to the declared types when the
+   * route uses @ValidateQuery
+   */
+  query?: Record<string, any>;
   body?: Record<string, string>;
   [key: string]: any;
 }
+
+export interface ExecutionContext {
+  req: Request;
+  res: Response;
+  controller?: Function;
+  handler: Function;
+}
+
+export interface CanActivate {
+  canActivate(context: ExecutionContext): boolean | Promise<boolean>;
+}
+
+export interface ErrorReport {
+  correlationId: string;
+  req: Request;
+}
+
+export interface ExceptionContext {
+  req: Request;
+  res: Response;
+  controller?: Function;
+  handler?: Function;
+}
+
+export interface ExceptionFilter<T = any> {
+  /**
+   * Handles an error thrown while processing a request. The filter may write
+   * the response itself, return a MuzuException to be rendered in its place,
+   * or return any other value to be sent as the body with `res.statusCode`
+   */
+  catch(exception: T, context: ExceptionContext): unknown;
+}
+
+export interface Interceptor {
+  /**
+   * @param next - Runs the next interceptor (or the handler) and resolves
+   * with its result; the value returned here replaces that result
+   */
+  intercept(context: ExecutionContext, next: NextFunction): unknown;
+}
+
+export interface ArgumentMetadata {
+  source: ParamSource;
+  name?: string;
+  metatype?: Function;
+}
+
+export interface PipeTransform<T = any, R = any> {
+  /**
+   * Converts or validates an injected handler argument. Throwing rejects the
+   * request; the returned value is passed on to the next pipe or the handler
+   */
+  transform(value: T, metadata: ArgumentMetadata): R | Promise<R>;
+}
@@ -59,6 +59,33 @@ export const Patch: MethodDecorator = (url = '/') => {
   return createHttpMethodDecorator(RequestMethod.PATCH, url);
 };
 
+/**
+ * Global HEAD method decorator
+ * GET routes already answer HEAD requests; use this for custom behavior
+ * @param url - Route path (default: '/')
+ */
+export const Head: MethodDecorator = (url = '/') => {
+  return createHttpMethodDecorator(RequestMethod.HEAD, url);
+};
+
+/**
+ * Global OPTIONS method decorator
+ * Paths already answer OPTIONS requests with their allowed methods; use this for custom behavior
+ * @param url - Route path (default: '/')
+ */
+export const Options: MethodDecorator = (url = '/') => {
+  return createHttpMethodDecorator(RequestMethod.OPTIONS, url);
+};
+
+/**
+ * Global decorator matching every HTTP method
+ * Routes registered for a specific method take precedence
+ * @param url - Route path (default: '/')
+ */
+export const All: MethodDecorator = (url = '/') => {
+  return createHttpMethodDecorator(RequestMethod.ALL, url);
+};
+
 /**
  * @deprecated Use global decorators instead of factory class
  * Kept for backward compatibility
@@ -72,4 +99,7 @@ export class MethodFactory {
   Delete = Delete;
   Put = Put;
   Patch = Patch;
+  Head = Head;
+  Options = Options;
+  All = All;
 }
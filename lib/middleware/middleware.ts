@@ -1,14 +1,17 @@
 export type Middleware = (
   target: any,
-  propertyKey: string,
-  descriptor: PropertyDescriptor
-) => PropertyDescriptor;
+  propertyKey?: string,
+  descriptor?: PropertyDescriptor
+) => any;
 
 export type MiddlewareDecorator = (...middlewares: Function[]) => Middleware;
 
 /**
  * Global Middleware decorator
- * Attaches middleware functions to a route handler
+ * Attaches middleware functions to a route handler, or to every route of a
+ * controller when applied to the class
+ *
+ * Execution order: global (`MuzuServer.use`) → controller → route
  *
  * @param middlewares - One or more middleware functions
  *
@@ -21,6 +24,7 @@ export type MiddlewareDecorator = (...middlewares: Function[]) => Middleware;
  * }
  *
  * @Controller('/api')
+ * @Middleware(loggerMiddleware)
  * export class UserController {
  *   @Get('/users')
  *   @Middleware(authMiddleware)
@@ -31,12 +35,30 @@ export type MiddlewareDecorator = (...middlewares: Function[]) => Middleware;
  * ```
  */
 export const Middleware: MiddlewareDecorator = (...middlewares: Function[]) => {
-  return (target: any, propertyKey: string, descriptor: PropertyDescriptor) => {
-    Reflect.defineMetadata('middlewares', middlewares, target[propertyKey]);
-    return descriptor;
+  return (
+    target: any,
+    propertyKey?: string,
+    descriptor?: PropertyDescriptor
+  ) => {
+    if (propertyKey && descriptor) {
+      // Method decorator
+      Reflect.defineMetadata('middlewares', middlewares, target[propertyKey]);
+      return descriptor;
+    } else {
+      // Class decorator
+      Reflect.defineMetadata('middlewares', middlewares, target);
+      return target;
+    }
   };
 };
 
+/**
+ * Gets the middlewares attached to a controller class or route handler
+ */
+export function getMiddlewares(target: any): Function[] {
+  return Reflect.getMetadata('middlewares', target) || [];
+}
+
 /**
  * @deprecated Use global Middleware decorator instead of factory class
  * Kept for backward compatibility
@@ -0,0 +1,209 @@
+import {ArgumentMetadata, PipeTransform, Request} from '../interfaces';
+import {Response, RouteHandler} from '../types';
+import {PipeType, resolvePipes} from '../pipes/pipes';
+
+export type ParamSource =
+  | 'param'
+  | 'query'
+  | 'body'
+  | 'headers'
+  | 'req'
+  | 'res';
+
+export interface ParamMetadata {
+  index: number;
+  source: ParamSource;
+  name?: string;
+  /**
+   * Declared TypeScript type of the argument (from design:paramtypes)
+   */
+  metatype?: Function;
+  pipes?: PipeType[];
+}
+
+function createParamDecorator(
+  source: ParamSource,
+  nameOrPipe?: string | PipeType,
+  pipes: PipeType[] = []
+): ParameterDecorator {
+  const name = typeof nameOrPipe === 'string' ? nameOrPipe : undefined;
+  if (nameOrPipe !== undefined && typeof nameOrPipe !== 'string') {
+    pipes = [nameOrPipe, ...pipes];
+  }
+
+  return (target: any, propertyKey: string | symbol | undefined, index) => {
+    if (!propertyKey) return;
+
+    const handler = target[propertyKey];
+    const paramTypes =
+      Reflect.getMetadata('design:paramtypes', target, propertyKey) || [];
+
+    Reflect.defineMetadata(
+      'params',
+      [
+        ...getParams(handler),
+        {index, source, name, metatype: paramTypes[index], pipes},
+      ].sort((a, b) => a.index - b.index),
+      handler
+    );
+  };
+}
+
+/**
+ * Injects a path parameter, or every path parameter when no name is given.
+ * Pipes run in order on the value before it reaches the handler
+ *
+ * @example
+ * ```typescript
+ * @Get('/users/:id')
+ * getUser(@Param('id', ParseIntPipe) id: number) {
+ *   return { id };
+ * }
+ * ```
+ */
+export function Param(
+  name?: string | PipeType,
+  ...pipes: PipeType[]
+): ParameterDecorator {
+  return createParamDecorator('param', name, pipes);
+}
+
+/**
+ * Injects a query string parameter, or the whole parsed query when no name
+ * is given. Query parameters never collide with path parameters
+ *
+ * @example
+ * ```typescript
+ * @Get('/users')
+ * listUsers(@Query('search') search?: string) {
+ *   return { search };
+ * }
+ * ```
+ */
+export function Query(
+  name?: string | PipeType,
+  ...pipes: PipeType[]
+): ParameterDecorator {
+  return createParamDecorator('query', name, pipes);
+}
+
+/**
+ * Injects the parsed request body, or one of its properties when a name is
+ * given. A DTO class as the parameter type documents the Swagger request body
+ *
+ * @example
+ * ```typescript
+ * @Post('/users')
+ * createUser(@Body() user: CreateUserDto) {
+ *   return user;
+ * }
+ * ```
+ */
+export function Body(
+  name?: string | PipeType,
+  ...pipes: PipeType[]
+): ParameterDecorator {
+  return createParamDecorator('body', name, pipes);
+}
+
+/**
+ * Injects a request header (case-insensitive), or all headers when no name
+ * is given
+ */
+export function Headers(
+  name?: string | PipeType,
+  ...pipes: PipeType[]
+): ParameterDecorator {
+  return createParamDecorator('headers', name, pipes);
+}
+
+/**
+ * Injects the raw request object
+ */
+export function Req(): ParameterDecorator {
+  return createParamDecorator('req');
+}
+
+/**
+ * Injects the raw response object
+ */
+export function Res(): ParameterDecorator {
+  return createParamDecorator('res');
+}
+
+/**
+ * Gets the parameter decorators of a route handler
+ */
+export function getParams(handler: Function): ParamMetadata[] {
+  return Reflect.getMetadata('params', handler) || [];
+}
+
+function resolveParam(
+  param: ParamMetadata,
+  req: Request,
+  res: Response
+): unknown {
+  switch (param.source) {
+    case 'param':
+      return param.name ? req.pathParams?.[param.name] : req.pathParams;
+    case 'query':
+      return param.name ? req.query?.[param.name] : req.query;
+    case 'body':
+      return param.name ? req.body?.[param.name] : req.body;
+    case 'headers':
+      return param.name ? req.headers[param.name.toLowerCase()] : req.headers;
+    case 'req':
+      return req;
+    case 'res':
+      return res;
+  }
+}
+
+async function applyPipes(
+  pipes: PipeTransform[],
+  value: unknown,
+  metadata: ArgumentMetadata
+): Promise<unknown> {
+  for (const pipe of pipes) {
+    value = await pipe.transform(value, metadata);
+  }
+  return value;
+}
+
+/**
+ * Wraps a handler using parameter decorators so it is called with the
+ * injected values instead of `(req, res)`. Undecorated arguments receive
+ * `undefined`
+ */
+export function createParamsHandler(
+  handler: Function,
+  instance: unknown,
+  params: ParamMetadata[]
+): RouteHandler {
+  const argsLength = Math.max(
+    handler.length,
+    ...params.map(param => param.index + 1)
+  );
+
+  const resolvedParams = params.map(param => ({
+    param,
+    pipes: resolvePipes(param.pipes || []),
+    metadata: {
+      source: param.source,
+      name: param.name,
+      metatype: param.metatype,
+    } as ArgumentMetadata,
+  }));
+
+  return (async (req: Request, res: Response) => {
+    const args = new Array(argsLength);
+    for (const {param, pipes, metadata} of resolvedParams) {
+      args[param.index] = await applyPipes(
+        pipes,
+        resolveParam(param, req, res),
+        metadata
+      );
+    }
+    return handler.apply(instance, args);
+  }) as unknown as RouteHandler;
+}
@@ -0,0 +1,20 @@
+import {PipeTransform} from '../interfaces';
+
+/**
+ * Replaces a missing value (undefined, null or NaN) with a default. Place it
+ * before parsing pipes to make a parameter optional
+ */
+export class DefaultValuePipe<T = any> implements PipeTransform<unknown, T> {
+  constructor(private readonly defaultValue: T) {}
+
+  transform(value: unknown): T {
+    if (
+      value === undefined ||
+      value === null ||
+      (typeof value === 'number' && isNaN(value))
+    ) {
+      return this.defaultValue;
+    }
+    return value as T;
+  }
+}
@@ -0,0 +1,19 @@
+import {ArgumentMetadata, PipeTransform} from '../interfaces';
+import {createPipeException} from './pipes';
+
+/**
+ * Converts `'true'` and `'false'` to booleans
+ */
+export class ParseBoolPipe implements PipeTransform<unknown, boolean> {
+  transform(value: unknown, metadata: ArgumentMetadata): boolean {
+    if (value === true || value === 'true') return true;
+    if (value === false || value === 'false') return false;
+
+    throw createPipeException(
+      metadata,
+      'isBoolean',
+      value,
+      'must be a boolean'
+    );
+  }
+}
@@ -0,0 +1,35 @@
+import {ArgumentMetadata, PipeTransform} from '../interfaces';
+import {createPipeException} from './pipes';
+
+/**
+ * Ensures a value is one of an enum's values. String input is matched
+ * against numeric enum values too, and converted to the enum value
+ */
+export class ParseEnumPipe<T extends object = any>
+  implements PipeTransform<unknown, T[keyof T]>
+{
+  private readonly values: T[keyof T][];
+
+  constructor(enumType: T) {
+    // Drop the reverse mappings TypeScript adds to numeric enums
+    this.values = Object.keys(enumType)
+      .filter(key => isNaN(Number(key)))
+      .map(key => enumType[key as keyof T]);
+  }
+
+  transform(value: unknown, metadata: ArgumentMetadata): T[keyof T] {
+    const match = this.values.find(
+      enumValue => enumValue === value || String(enumValue) === value
+    );
+    if (match !== undefined) {
+      return match;
+    }
+
+    throw createPipeException(
+      metadata,
+      'isEnum',
+      value,
+      `must be one of: ${this.values.join(', ')}`
+    );
+  }
+}
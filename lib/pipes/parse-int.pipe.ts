@@ -0,0 +1,19 @@
+import {ArgumentMetadata, PipeTransform} from '../interfaces';
+import {createPipeException} from './pipes';
+
+const INT_REGEX = /^-?\d+$/;
+
+/**
+ * Converts a numeric string to an integer
+ */
+export class ParseIntPipe implements PipeTransform<unknown, number> {
+  transform(value: unknown, metadata: ArgumentMetadata): number {
+    if (typeof value === 'number' && Number.isInteger(value)) {
+      return value;
+    }
+    if (typeof value !== 'string' || !INT_REGEX.test(value)) {
+      throw createPipeException(metadata, 'isInt', value, 'must be an integer');
+    }
+    return parseInt(value, 10);
+  }
+}
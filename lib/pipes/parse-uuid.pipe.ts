@@ -0,0 +1,33 @@
+import {ArgumentMetadata, PipeTransform} from '../interfaces';
+import {createPipeException} from './pipes';
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
+
+export interface ParseUUIDPipeOptions {
+  /**
+   * Only accept this UUID version (1-5)
+   */
+  version?: 1 | 2 | 3 | 4 | 5;
+}
+
+/**
+ * Ensures a value is a UUID
+ */
+export class ParseUUIDPipe implements PipeTransform<unknown, string> {
+  constructor(private readonly options: ParseUUIDPipeOptions = {}) {}
+
+  transform(value: unknown, metadata: ArgumentMetadata): string {
+    if (typeof value === 'string' && UUID_REGEX.test(value)) {
+      const {version} = this.options;
+      if (!version || value[14] === String(version)) {
+        return value;
+      }
+    }
+
+    const expected = this.options.version
+      ? `a valid UUID (version ${this.options.version})`
+      : 'a valid UUID';
+    throw createPipeException(metadata, 'isUUID', value, `must be ${expected}`);
+  }
+}
@@ -0,0 +1,32 @@
+import {ArgumentMetadata, PipeTransform} from '../interfaces';
+import {BadRequestException} from '../exceptions/bad-request.exception';
+import {ValidationError} from '../exceptions/validation.exception';
+
+export type PipeType = PipeTransform | (new () => PipeTransform);
+
+/**
+ * Instantiates pipe classes so each request reuses the same instances
+ */
+export function resolvePipes(pipes: PipeType[]): PipeTransform[] {
+  return pipes.map(pipe => (typeof pipe === 'function' ? new pipe() : pipe));
+}
+
+/**
+ * Builds the BadRequestException thrown by built-in pipes, carrying a
+ * ValidationError for the rejected argument
+ */
+export function createPipeException(
+  metadata: ArgumentMetadata,
+  constraint: string,
+  value: unknown,
+  message: string
+): BadRequestException {
+  const field = metadata.name || metadata.source;
+  const error: ValidationError = {
+    field,
+    constraint,
+    value,
+    message: `${field} ${message}`,
+  };
+  return new BadRequestException(error.message, error);
+}
@@ -1,9 +1,37 @@
+export type QueryValue = string | QueryValue[] | {[key: string]: QueryValue};
+
 export interface ParsedPath {
   path: string;
-  queryParams: Record<string, string>;
+  queryParams: Record<string, QueryValue>;
+}
+
+export interface QueryParserOptions {
+  /**
+   * Maximum bracket nesting depth; deeper brackets stay part of the key
+   * (default 5)
+   */
+  depth?: number;
+  /**
+   * Maximum number of parameters parsed; the rest are ignored (default 1000)
+   */
+  parameterLimit?: number;
+  /**
+   * Highest numeric bracket index turned into an array position; larger
+   * indexes become object keys (default 20)
+   */
+  arrayLimit?: number;
 }
 
-export function compilePathParser(hasQueryParams: boolean): PathParser {
+const DEFAULT_DEPTH = 5;
+const DEFAULT_PARAMETER_LIMIT = 1000;
+const DEFAULT_ARRAY_LIMIT = 20;
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+const INDEX_REGEX = /^\d+$/;
+
+export function compilePathParser(
+  hasQueryParams: boolean,
+  options: QueryParserOptions = {}
+): PathParser {
   if (!hasQueryParams) {
     return (url: string): ParsedPath => {
       const queryIndex = url.indexOf('?');
@@ -14,6 +42,12 @@ export function compilePathParser(hasQueryParams: boolean): PathParser {
     };
   }
 
+  const limits: Required<QueryParserOptions> = {
+    depth: options.depth ?? DEFAULT_DEPTH,
+    parameterLimit: options.parameterLimit ?? DEFAULT_PARAMETER_LIMIT,
+    arrayLimit: options.arrayLimit ?? DEFAULT_ARRAY_LIMIT,
+  };
+
   return (url: string): ParsedPath => {
     const queryIndex = url.indexOf('?');
 
@@ -29,39 +63,183 @@ export function compilePathParser(hasQueryParams: boolean): PathParser {
 
     return {
       path,
-      queryParams: parseQueryString(queryString),
+      queryParams: parseQueryString(queryString, limits),
     };
   };
 }
 
 export type PathParser = (url: string) => ParsedPath;
 
-function parseQueryString(queryString: string): Record<string, string> {
+/**
+ * Parses a query string. Repeated keys (`tag=a&tag=b`) and empty brackets
+ * (`tag[]=a`) produce arrays, bracketed keys (`filter[status]=open`) produce
+ * nested objects, and numeric brackets (`items[0][name]=a`) array items
+ */
+export function parseQueryString(
+  queryString: string,
+  limits: Required<QueryParserOptions>
+): Record<string, QueryValue> {
+  const params: Record<string, QueryValue> = {};
   if (!queryString) {
-    return {};
+    return params;
   }
 
-  const params: Record<string, string> = {};
-  const pairs = queryString.split('&');
+  const pairs = queryString.split('&', limits.parameterLimit);
+  let hasIndexes = false;
 
   for (let i = 0; i < pairs.length; i++) {
     const pair = pairs[i];
     if (!pair) continue;
 
     const equalsIndex = pair.indexOf('=');
+    const rawKey = equalsIndex === -1 ? pair : pair.substring(0, equalsIndex);
+    const rawValue = equalsIndex === -1 ? '' : pair.substring(equalsIndex + 1);
+
+    const keys = splitKey(decode(rawKey), limits.depth);
+    if (!keys || keys.some(key => FORBIDDEN_KEYS.has(key))) continue;
+
+    hasIndexes ||= keys.some(key => INDEX_REGEX.test(key));
+    assignValue(params, keys, rawValue ? decode(rawValue) : '', limits);
+  }
+
+  return hasIndexes
+    ? (compactArrays(params) as Record<string, QueryValue>)
+    : params;
+}
+
+function decode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Splits `a[b][c]` into `['a', 'b', 'c']`. Brackets beyond the depth limit
+ * are kept, unparsed, as the last key
+ */
+function splitKey(key: string, depth: number): string[] | undefined {
+  const bracketIndex = key.indexOf('[');
+  if (bracketIndex === -1) {
+    return key ? [key] : undefined;
+  }
+
+  const root = key.substring(0, bracketIndex);
+  if (!root) return undefined;
+
+  const keys = [root];
+  let rest = key.substring(bracketIndex);
+
+  while (keys.length <= depth && rest.startsWith('[')) {
+    const closeIndex = rest.indexOf(']');
+    if (closeIndex === -1) break;
+    keys.push(rest.substring(1, closeIndex));
+    rest = rest.substring(closeIndex + 1);
+  }
+
+  if (rest) {
+    keys.push(rest);
+  }
+
+  return keys;
+}
 
-    if (equalsIndex === -1) {
-      params[pair] = '';
-      continue;
+function assignValue(
+  params: Record<string, QueryValue>,
+  keys: string[],
+  value: string,
+  limits: Required<QueryParserOptions>
+): void {
+  let parent: any = undefined;
+  let parentKey = '';
+  let container: any = params;
+
+  for (let i = 0; i < keys.length; i++) {
+    const key = keys[i];
+    const isLast = i === keys.length - 1;
+
+    if (Array.isArray(container)) {
+      if (key === '') {
+        if (isLast) {
+          container.push(value);
+          return;
+        }
+        const child = createContainer(keys[i + 1], limits);
+        container.push(child);
+        parent = container;
+        parentKey = String(container.length - 1);
+        container = child;
+        continue;
+      }
+      if (!isArrayIndex(key, limits)) {
+        // Mixing indexes and named keys turns the array into an object
+        container = Object.assign({}, container);
+        parent[parentKey] = container;
+      }
     }
 
-    const key = pair.substring(0, equalsIndex);
-    const value = pair.substring(equalsIndex + 1);
+    if (isLast) {
+      const existing = getOwn(container, key);
+      if (existing === undefined) {
+        container[key] = value;
+      } else if (Array.isArray(existing)) {
+        existing.push(value);
+      } else if (typeof existing === 'string') {
+        container[key] = [existing, value];
+      }
+      return;
+    }
 
-    if (key) {
-      params[key] = value ? decodeURIComponent(value) : '';
+    const next = getOwn(container, key);
+    if (next === undefined || typeof next === 'string') {
+      container[key] = createContainer(keys[i + 1], limits, next);
     }
+    parent = container;
+    parentKey = key;
+    container = container[key];
   }
+}
 
-  return params;
+/**
+ * Reads an own property only, so keys like `toString` or `hasOwnProperty`
+ * never resolve to Object.prototype members
+ */
+function getOwn(container: any, key: string): QueryValue | undefined {
+  return Object.prototype.hasOwnProperty.call(container, key)
+    ? container[key]
+    : undefined;
+}
+
+function createContainer(
+  nextKey: string,
+  limits: Required<QueryParserOptions>,
+  existing?: string
+): QueryValue {
+  if (nextKey === '' || isArrayIndex(nextKey, limits)) {
+    return existing === undefined ? [] : [existing];
+  }
+  return {};
+}
+
+function isArrayIndex(
+  key: string,
+  limits: Required<QueryParserOptions>
+): boolean {
+  return INDEX_REGEX.test(key) && Number(key) <= limits.arrayLimit;
+}
+
+/**
+ * Removes the holes left by sparse indexes such as `a[2]=x`
+ */
+function compactArrays(value: QueryValue): QueryValue {
+  if (Array.isArray(value)) {
+    return value.filter(item => item !== undefined).map(compactArrays);
+  }
+  if (typeof value === 'object') {
+    for (const key of Object.keys(value)) {
+      value[key] = compactArrays(value[key]);
+    }
+  }
+  return value;
 }
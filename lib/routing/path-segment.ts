@@ -0,0 +1,57 @@
+const PARAM_PREFIX = ':';
+const PARAM_SEGMENT_REGEX = /^:([^(?]+)(?:\((.+)\))?(\?)?$/;
+const WILDCARD_PREFIX = '*';
+const DEFAULT_WILDCARD_NAME = 'wildcard';
+
+/**
+ * A route segment declaring a parameter: `:id`, `:id(\d+)`, `:lang?`,
+ * `*path` or `*`
+ */
+export interface PathSegment {
+  name: string;
+  /**
+   * Source of the inline constraint, without anchors
+   */
+  pattern?: string;
+  optional: boolean;
+  wildcard: boolean;
+}
+
+export function isParamSegment(segment: string): boolean {
+  return segment.startsWith(PARAM_PREFIX);
+}
+
+export function isWildcardSegment(segment: string): boolean {
+  return segment.startsWith(WILDCARD_PREFIX);
+}
+
+/**
+ * Parses a route segment into the parameter it declares, or null for a
+ * static segment. The router and the OpenAPI generator both read route
+ * paths through it
+ */
+export function parsePathSegment(segment: string): PathSegment | null {
+  if (isWildcardSegment(segment)) {
+    const name = segment.slice(WILDCARD_PREFIX.length);
+    // A bare `*` also matches nothing, a named wildcard needs a segment
+    return {
+      name: name || DEFAULT_WILDCARD_NAME,
+      optional: !name,
+      wildcard: true,
+    };
+  }
+
+  if (!isParamSegment(segment)) return null;
+
+  const match = PARAM_SEGMENT_REGEX.exec(segment);
+  if (!match) {
+    return {
+      name: segment.slice(PARAM_PREFIX.length),
+      optional: false,
+      wildcard: false,
+    };
+  }
+
+  const [, name, pattern, optional] = match;
+  return {name, pattern, optional: optional === '?', wildcard: false};
+}
@@ -1,18 +1,23 @@
 import {Route} from '../interfaces';
-import {RouteTree, SearchResult} from './route-tree';
+import {RequestMethod} from '../types';
+import {RouteTree, RouteTreeOptions, SearchResult} from './route-tree';
 import {RouteMetadata} from './route-metadata';
 
+const CONCRETE_METHODS = Object.values(RequestMethod).filter(
+  method => method !== RequestMethod.ALL
+);
+
 export class RouteManager {
   private trees: Map<string, RouteTree>;
 
-  constructor() {
+  constructor(private readonly options: RouteTreeOptions = {}) {
     this.trees = new Map();
   }
 
   private getOrCreateTree(method: string): RouteTree {
     let tree = this.trees.get(method);
     if (!tree) {
-      tree = new RouteTree();
+      tree = new RouteTree(this.options);
       this.trees.set(method, tree);
     }
     return tree;
@@ -20,16 +25,7 @@ export class RouteManager {
 
   public addRoute(route: Route): void {
     const tree = this.getOrCreateTree(route.method);
-    tree.insert(
-      route.url,
-      route.handler,
-      route.middlewares,
-      route.method,
-      route.hasQueryParams,
-      route.bodyValidator,
-      route.queryValidator,
-      route.originalHandler
-    );
+    tree.insert(route);
   }
 
   public addRoutes(routes: Route[]): void {
@@ -79,6 +75,37 @@ export class RouteManager {
     return routes;
   }
 
+  /**
+   * Lists the methods a path answers to, including the implicit HEAD
+   * (served from GET) and OPTIONS
+   */
+  public getAllowedMethods(url: string): string[] {
+    const queryIndex = url.indexOf('?');
+    const path = queryIndex === -1 ? url : url.substring(0, queryIndex);
+
+    const allowedMethods = new Set<string>();
+    this.trees.forEach((tree, method) => {
+      if (!tree.search(path).metadata) return;
+
+      if (method === RequestMethod.ALL) {
+        CONCRETE_METHODS.forEach(m => allowedMethods.add(m));
+      } else {
+        allowedMethods.add(method);
+      }
+    });
+
+    if (allowedMethods.size === 0) {
+      return [];
+    }
+
+    if (allowedMethods.has(RequestMethod.GET)) {
+      allowedMethods.add(RequestMethod.HEAD);
+    }
+    allowedMethods.add(RequestMethod.OPTIONS);
+
+    return Array.from(allowedMethods);
+  }
+
   public find(url: string, method: string | undefined): SearchResult {
     if (!method) {
       return {params: {}};
@@ -87,6 +114,22 @@ export class RouteManager {
     const queryIndex = url.indexOf('?');
     const path = queryIndex === -1 ? url : url.substring(0, queryIndex);
 
+    const result = this.searchTree(method, path);
+    if (result.metadata) {
+      return result;
+    }
+
+    if (method === RequestMethod.HEAD) {
+      const getResult = this.searchTree(RequestMethod.GET, path);
+      if (getResult.metadata) {
+        return getResult;
+      }
+    }
+
+    return this.searchTree(RequestMethod.ALL, path);
+  }
+
+  private searchTree(method: string, path: string): SearchResult {
     const tree = this.trees.get(method);
     if (!tree) {
       return {params: {}};
@@ -1,6 +1,16 @@
-import {RouteHandler} from '../types';
+import {NextFunction, RouteHandler} from '../types';
 import {PathParser} from './path-parser';
-import {CompiledValidator} from '../validation';
+import {
+  CompiledValidator,
+  PayloadTransformer,
+  QueryCoercer,
+} from '../validation';
+import {
+  CanActivate,
+  ExceptionFilter,
+  ExecutionContext,
+  Interceptor,
+} from '../interfaces';
 
 export interface RouteMetadata {
   handler: RouteHandler;
@@ -17,11 +27,34 @@ export interface RouteMetadata {
   method: string;
 
   bodyValidator?: CompiledValidator;
+  bodyTransformer?: PayloadTransformer;
   queryValidator?: CompiledValidator;
+  queryCoercer?: QueryCoercer;
+
+  controller?: Function;
+  controllerName?: string;
+  handlerName?: string;
+
+  guards?: CanActivate[];
+  composedInterceptor?: ComposedInterceptor;
+  filters?: ExceptionFilter[];
 }
 
-export type ComposedMiddleware = (req: any, res: any) => Promise<void> | void;
+export type ComposedMiddleware = (
+  req: any,
+  res: any,
+  handler: NextFunction
+) => Promise<unknown>;
 
+/**
+ * Composes middlewares into a single onion around the route handler.
+ *
+ * Middlewares declaring three parameters `(req, res, next)` control the chain:
+ * they may run code after `await next()`, skip `next()` to stop the chain, or
+ * return a value to replace the result. Middlewares with fewer parameters run
+ * before the handler and always continue. Nothing downstream runs once the
+ * response has been ended.
+ */
 export function composeMiddlewares(
   middlewares?: Function[]
 ): ComposedMiddleware | undefined {
@@ -29,17 +62,71 @@ export function composeMiddlewares(
     return undefined;
   }
 
-  if (middlewares.length === 1) {
-    return middlewares[0] as ComposedMiddleware;
+  return (req: any, res: any, handler: NextFunction) => {
+    const dispatch = async (index: number): Promise<unknown> => {
+      if (res.writableEnded) {
+        return undefined;
+      }
+
+      if (index === middlewares.length) {
+        return handler();
+      }
+
+      const middleware = middlewares[index];
+
+      if (middleware.length < 3) {
+        await middleware(req, res);
+        return dispatch(index + 1);
+      }
+
+      let downstream: Promise<unknown> | undefined;
+      const next: NextFunction = () => {
+        if (downstream) {
+          return Promise.reject(new Error('next() called multiple times'));
+        }
+        downstream = dispatch(index + 1);
+        return downstream;
+      };
+
+      const result = await middleware(req, res, next);
+      if (!downstream) {
+        return result;
+      }
+      // Waits for the handler even when the middleware did not await next(),
+      // so its errors are not lost when the middleware returns its own value
+      const downstreamResult = await downstream;
+      return result === undefined ? downstreamResult : result;
+    };
+
+    return dispatch(0);
+  };
+}
+
+export type ComposedInterceptor = (
+  context: ExecutionContext,
+  handler: NextFunction
+) => Promise<unknown>;
+
+/**
+ * Composes interceptors into a single function around the route handler,
+ * the first interceptor being the outermost
+ */
+export function composeInterceptors(
+  interceptors?: Interceptor[]
+): ComposedInterceptor | undefined {
+  if (!interceptors || interceptors.length === 0) {
+    return undefined;
   }
 
-  return async (req: any, res: any) => {
-    for (const middleware of middlewares) {
-      const result = middleware(req, res);
-      if (result instanceof Promise) {
-        await result;
+  return (context: ExecutionContext, handler: NextFunction) => {
+    const dispatch = async (index: number): Promise<unknown> => {
+      if (index === interceptors.length) {
+        return handler();
       }
-    }
+      return interceptors[index].intercept(context, () => dispatch(index + 1));
+    };
+
+    return dispatch(0);
   };
 }
 
@@ -60,6 +147,9 @@ export function requiresBodyParsing(method: string): boolean {
   const methodUpper = method.toUpperCase();
 
   return (
-    methodUpper === 'POST' || methodUpper === 'PUT' || methodUpper === 'PATCH'
+    methodUpper === 'POST' ||
+    methodUpper === 'PUT' ||
+    methodUpper === 'PATCH' ||
+    methodUpper === 'ALL'
   );
 }
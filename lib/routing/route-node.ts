@@ -3,14 +3,19 @@ import {RouteMetadata} from './route-metadata';
 export enum NodeType {
   STATIC = 'static',
   PARAM = 'param',
+  WILDCARD = 'wildcard',
 }
 
 export interface RouteNode {
   segment: string;
   type: NodeType;
   paramName?: string;
+  pattern?: RegExp;
+  optional?: boolean;
   children: Map<string, RouteNode>;
+  constrainedChildren?: RouteNode[];
   paramChild?: RouteNode;
+  wildcardChild?: RouteNode;
   metadata?: RouteMetadata;
 }
 
@@ -1,62 +1,93 @@
 import {RouteHandler} from '../types';
+import {Route} from '../interfaces';
 import {createNode, NodeType, RouteNode} from './route-node';
-import {compilePathParser} from './path-parser';
+import {compilePathParser, QueryParserOptions} from './path-parser';
 import {
   RouteMetadata,
   composeMiddlewares,
+  composeInterceptors,
   isAsyncFunction,
   requiresBodyParsing,
 } from './route-metadata';
-import {CompiledValidator} from '../validation';
+import {RouteConflictException} from '../exceptions/route-conflict.exception';
+import {
+  isParamSegment,
+  isWildcardSegment,
+  parsePathSegment,
+} from './path-segment';
 
-const PARAM_PREFIX = ':';
 const PATH_SEPARATOR = '/';
 
+interface ParamSegment {
+  name: string;
+  pattern?: RegExp;
+  optional: boolean;
+}
+
 export interface SearchResult {
   metadata?: RouteMetadata;
   params: Record<string, string>;
 }
 
+export interface RouteTreeOptions {
+  /**
+   * Lets a later registration replace an existing route with the same
+   * method and path instead of failing with a RouteConflictException.
+   * Differently named params at the same position still fail
+   */
+  allowOverride?: boolean;
+  /**
+   * Limits applied when parsing query strings
+   */
+  queryParser?: QueryParserOptions;
+}
+
 export class RouteTree {
   private readonly root: RouteNode;
+  private readonly allowOverride: boolean;
+  private readonly queryParserOptions?: QueryParserOptions;
 
-  constructor() {
+  constructor(options: RouteTreeOptions = {}) {
     this.root = createNode('', NodeType.STATIC);
+    this.allowOverride = options.allowOverride ?? false;
+    this.queryParserOptions = options.queryParser;
   }
 
-  public insert(
-    path: string,
-    handler: RouteHandler,
-    middlewares?: Function[],
-    method?: string,
-    hasQueryParams?: boolean,
-    bodyValidator?: CompiledValidator,
-    queryValidator?: CompiledValidator,
-    originalHandler?: RouteHandler
-  ): void {
-    const segments = this.splitPathIntoSegments(path);
-    const leafNode = this.traverseAndCreateNodes(segments);
-
-    leafNode.metadata = this.compileRouteMetadata(
-      handler,
-      middlewares,
-      method,
-      hasQueryParams,
-      bodyValidator,
-      queryValidator,
-      originalHandler
+  public insert(route: Route): void {
+    const segments = this.splitPathIntoSegments(route.url).map(segment =>
+      this.normalizeSegment(segment)
     );
+    this.assertWildcardIsLast(route.url, segments);
+    const metadata = this.compileRouteMetadata(route);
+    const leafNode = this.traverseAndCreateNodes(segments, metadata);
+
+    if (leafNode.metadata && !this.allowOverride) {
+      throw new RouteConflictException(
+        `Route conflict: ${this.describeRoute(route.url, metadata)} ` +
+          `duplicates ${this.describeRoute(route.url, leafNode.metadata)}`
+      );
+    }
+
+    leafNode.metadata = metadata;
   }
 
-  private compileRouteMetadata(
-    handler: RouteHandler,
-    middlewares?: Function[],
-    method?: string,
-    hasQueryParams?: boolean,
-    bodyValidator?: CompiledValidator,
-    queryValidator?: CompiledValidator,
-    originalHandler?: RouteHandler
-  ): RouteMetadata {
+  private compileRouteMetadata({
+    handler,
+    middlewares,
+    method,
+    hasQueryParams,
+    bodyValidator,
+    bodyTransformer,
+    queryValidator,
+    queryCoercer,
+    originalHandler,
+    controller,
+    controllerName,
+    handlerName,
+    guards,
+    interceptors,
+    filters,
+  }: Route): RouteMetadata {
     let queryParamsDetected = hasQueryParams;
     if (queryParamsDetected === undefined) {
       const handlerSource = handler.toString();
@@ -72,10 +103,21 @@ export class RouteTree {
       isAsync: isAsyncFunction(handler),
       requiresBody: method ? requiresBodyParsing(method) : true,
       hasQueryParams: queryParamsDetected,
-      pathParser: compilePathParser(queryParamsDetected),
+      pathParser: compilePathParser(
+        queryParamsDetected,
+        this.queryParserOptions
+      ),
       method: method || 'GET',
       bodyValidator,
+      bodyTransformer,
       queryValidator,
+      queryCoercer,
+      controller,
+      controllerName,
+      handlerName,
+      guards: guards && guards.length > 0 ? guards : undefined,
+      composedInterceptor: composeInterceptors(interceptors),
+      filters: filters && filters.length > 0 ? filters : undefined,
     };
   }
 
@@ -105,18 +147,83 @@ export class RouteTree {
     return routes;
   }
 
-  private traverseAndCreateNodes(segments: string[]): RouteNode {
+  private traverseAndCreateNodes(
+    segments: string[],
+    metadata: RouteMetadata
+  ): RouteNode {
     let currentNode = this.root;
 
-    for (const segment of segments) {
+    for (let i = 0; i < segments.length; i++) {
+      const segment = segments[i];
+      this.assertNoDynamicConflict(currentNode, segments, i, metadata);
       currentNode = this.getOrCreateChildNode(currentNode, segment);
     }
 
     return currentNode;
   }
 
+  /**
+   * Param and wildcard children are shared by every route at the same depth,
+   * so differently named segments would silently reuse the first name
+   */
+  private assertNoDynamicConflict(
+    parent: RouteNode,
+    segments: string[],
+    index: number,
+    metadata: RouteMetadata
+  ): void {
+    const segment = segments[index];
+    let existing: RouteNode | undefined;
+
+    if (isWildcardSegment(segment)) {
+      existing = parent.wildcardChild;
+    } else if (
+      isParamSegment(segment) &&
+      !this.parseParamSegment(segment).pattern
+    ) {
+      existing = parent.paramChild;
+    }
+
+    if (!existing || existing.segment === segment) return;
+
+    const parentPath = segments.slice(0, index).join(PATH_SEPARATOR);
+    const existingRoutes: Array<{
+      path: string;
+      handler: RouteHandler;
+      metadata?: RouteMetadata;
+    }> = [];
+    this.collectRoutes(
+      existing,
+      parentPath ? PATH_SEPARATOR + parentPath : '',
+      existingRoutes
+    );
+    const [existingRoute] = existingRoutes;
+
+    throw new RouteConflictException(
+      `Route conflict: ${this.describeRoute(
+        PATH_SEPARATOR + segments.join(PATH_SEPARATOR),
+        metadata
+      )} uses segment '${segment}' where ${this.describeRoute(
+        existingRoute.path,
+        existingRoute.metadata!
+      )} uses '${existing.segment}' at the same position`
+    );
+  }
+
+  private describeRoute(path: string, metadata: RouteMetadata): string {
+    const source =
+      metadata.controllerName && metadata.handlerName
+        ? `${metadata.controllerName}.${metadata.handlerName}`
+        : metadata.handler.name || 'anonymous handler';
+    return `${metadata.method} ${path} (${source})`;
+  }
+
   private getOrCreateChildNode(parent: RouteNode, segment: string): RouteNode {
-    if (this.isParamSegment(segment)) {
+    if (isWildcardSegment(segment)) {
+      return this.getOrCreateWildcardChild(parent, segment);
+    }
+
+    if (isParamSegment(segment)) {
       return this.getOrCreateParamChild(parent, segment);
     }
 
@@ -124,13 +231,59 @@ export class RouteTree {
   }
 
   private getOrCreateParamChild(parent: RouteNode, segment: string): RouteNode {
+    const paramSegment = this.parseParamSegment(segment);
+
+    if (paramSegment.pattern) {
+      return this.getOrCreateConstrainedChild(parent, segment, paramSegment);
+    }
+
     if (!parent.paramChild) {
-      const paramName = this.extractParamName(segment);
-      parent.paramChild = createNode(segment, NodeType.PARAM, paramName);
+      parent.paramChild = this.createParamNode(segment, paramSegment);
     }
     return parent.paramChild;
   }
 
+  private getOrCreateConstrainedChild(
+    parent: RouteNode,
+    segment: string,
+    paramSegment: ParamSegment
+  ): RouteNode {
+    if (!parent.constrainedChildren) {
+      parent.constrainedChildren = [];
+    }
+
+    let child = parent.constrainedChildren.find(c => c.segment === segment);
+
+    if (!child) {
+      child = this.createParamNode(segment, paramSegment);
+      parent.constrainedChildren.push(child);
+    }
+
+    return child;
+  }
+
+  private createParamNode(
+    segment: string,
+    {name, pattern, optional}: ParamSegment
+  ): RouteNode {
+    const node = createNode(segment, NodeType.PARAM, name);
+    node.pattern = pattern;
+    node.optional = optional;
+    return node;
+  }
+
+  private getOrCreateWildcardChild(
+    parent: RouteNode,
+    segment: string
+  ): RouteNode {
+    if (!parent.wildcardChild) {
+      const {name, optional} = parsePathSegment(segment)!;
+      parent.wildcardChild = createNode(segment, NodeType.WILDCARD, name);
+      parent.wildcardChild.optional = optional;
+    }
+    return parent.wildcardChild;
+  }
+
   private getOrCreateStaticChild(
     parent: RouteNode,
     segment: string
@@ -152,7 +305,17 @@ export class RouteTree {
     params: Record<string, string>
   ): RouteNode | null {
     if (this.hasMatchedAllSegments(segmentIndex, segments.length)) {
-      return this.hasHandler(node) ? node : null;
+      if (this.hasHandler(node)) return node;
+
+      const optionalMatch = this.tryOptionalSkip(
+        node,
+        segments,
+        segmentIndex,
+        params
+      );
+      if (optionalMatch) return optionalMatch;
+
+      return this.tryWildcardMatch(node, segments, segmentIndex, params);
     }
 
     const currentSegment = segments[segmentIndex];
@@ -175,7 +338,15 @@ export class RouteTree {
     );
     if (paramMatch) return paramMatch;
 
-    return null;
+    const optionalMatch = this.tryOptionalSkip(
+      node,
+      segments,
+      segmentIndex,
+      params
+    );
+    if (optionalMatch) return optionalMatch;
+
+    return this.tryWildcardMatch(node, segments, segmentIndex, params);
   }
 
   private tryStaticMatch(
@@ -185,7 +356,8 @@ export class RouteTree {
     index: number,
     params: Record<string, string>
   ): RouteNode | null {
-    const staticChild = node.children.get(segment);
+    // Static segments are case-insensitive, captured values keep their case
+    const staticChild = node.children.get(segment.toLowerCase());
 
     if (!staticChild) {
       return null;
@@ -201,15 +373,48 @@ export class RouteTree {
     index: number,
     params: Record<string, string>
   ): RouteNode | null {
+    if (node.constrainedChildren) {
+      for (const constrainedChild of node.constrainedChildren) {
+        const result = this.tryParamCandidate(
+          constrainedChild,
+          segment,
+          segments,
+          index,
+          params
+        );
+        if (result) return result;
+      }
+    }
+
     if (!node.paramChild) {
       return null;
     }
 
-    const paramName = node.paramChild.paramName!;
+    return this.tryParamCandidate(
+      node.paramChild,
+      segment,
+      segments,
+      index,
+      params
+    );
+  }
+
+  private tryParamCandidate(
+    paramChild: RouteNode,
+    segment: string,
+    segments: string[],
+    index: number,
+    params: Record<string, string>
+  ): RouteNode | null {
+    if (paramChild.pattern && !paramChild.pattern.test(segment)) {
+      return null;
+    }
+
+    const paramName = paramChild.paramName!;
     params[paramName] = segment;
 
     const result = this.findMatchingNode(
-      node.paramChild,
+      paramChild,
       segments,
       index + 1,
       params
@@ -223,26 +428,86 @@ export class RouteTree {
     return null;
   }
 
+  private tryOptionalSkip(
+    node: RouteNode,
+    segments: string[],
+    index: number,
+    params: Record<string, string>
+  ): RouteNode | null {
+    if (node.constrainedChildren) {
+      for (const constrainedChild of node.constrainedChildren) {
+        if (!constrainedChild.optional) continue;
+
+        const result = this.findMatchingNode(
+          constrainedChild,
+          segments,
+          index,
+          params
+        );
+        if (result) return result;
+      }
+    }
+
+    if (!node.paramChild?.optional) {
+      return null;
+    }
+
+    return this.findMatchingNode(node.paramChild, segments, index, params);
+  }
+
+  private tryWildcardMatch(
+    node: RouteNode,
+    segments: string[],
+    index: number,
+    params: Record<string, string>
+  ): RouteNode | null {
+    const wildcardChild = node.wildcardChild;
+
+    if (!wildcardChild || !this.hasHandler(wildcardChild)) {
+      return null;
+    }
+
+    if (index === segments.length && !wildcardChild.optional) {
+      return null;
+    }
+
+    params[wildcardChild.paramName!] = segments
+      .slice(index)
+      .join(PATH_SEPARATOR);
+    return wildcardChild;
+  }
+
   private splitPathIntoSegments(path: string): string[] {
-    return path
-      .split(PATH_SEPARATOR)
-      .filter(segment => segment.length > 0)
-      .map(segment => this.normalizeSegment(segment));
+    return path.split(PATH_SEPARATOR).filter(segment => segment.length > 0);
   }
 
   private normalizeSegment(segment: string): string {
-    if (this.isParamSegment(segment)) {
+    if (isParamSegment(segment) || isWildcardSegment(segment)) {
       return segment;
     }
     return segment.toLowerCase();
   }
 
-  private isParamSegment(segment: string): boolean {
-    return segment.startsWith(PARAM_PREFIX);
+  private parseParamSegment(segment: string): ParamSegment {
+    const {name, pattern, optional} = parsePathSegment(segment)!;
+
+    return {
+      name,
+      pattern: pattern ? new RegExp(`^(?:${pattern})$`) : undefined,
+      optional,
+    };
   }
 
-  private extractParamName(segment: string): string {
-    return segment.slice(PARAM_PREFIX.length);
+  private assertWildcardIsLast(path: string, segments: string[]): void {
+    const wildcardIndex = segments.findIndex(segment =>
+      isWildcardSegment(segment)
+    );
+
+    if (wildcardIndex !== -1 && wildcardIndex !== segments.length - 1) {
+      throw new Error(
+        `Wildcard segment must be the last segment of route path: ${path}`
+      );
+    }
   }
 
   private createSuccessResult(
@@ -290,9 +555,17 @@ export class RouteTree {
       this.collectRoutes(child, path, routes);
     });
 
+    node.constrainedChildren?.forEach(child => {
+      this.collectRoutes(child, path, routes);
+    });
+
     if (node.paramChild) {
       this.collectRoutes(node.paramChild, path, routes);
     }
+
+    if (node.wildcardChild) {
+      this.collectRoutes(node.wildcardChild, path, routes);
+    }
   }
 
   private buildPathString(currentPath: string, segment: string): string {
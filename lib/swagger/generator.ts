@@ -1,6 +1,13 @@
 import {RouteManager} from '../routing/route-manager';
+import {parsePathSegment, PathSegment} from '../routing/path-segment';
 import {getRegisteredControllers} from '../controller/controller-registry';
-import {OpenAPISpec, SwaggerConfig, Operation, Schema} from './types';
+import {
+  OpenAPISpec,
+  SwaggerConfig,
+  Operation,
+  Parameter,
+  Schema,
+} from './types';
 import {
   getApiOperation,
   getApiResponses,
@@ -9,14 +16,48 @@ import {
   getApiTags,
   TagDefinition,
 } from './decorators';
-import {getValidationRules} from '../validation';
+import {
+  filterRulesByGroups,
+  getDtoPropertyKeys,
+  getValidationMetadata,
+  getValidationRules,
+} from '../validation';
+import {ErrorFormat} from '../types';
+import {PROBLEM_CONTENT_TYPE} from '../exceptions/problem-details';
+import {getParams, ParamMetadata} from '../params/params';
+import {
+  ALPHANUMERIC_REGEX,
+  E164_REGEX,
+  HEX_COLOR_REGEX,
+  SEMVER_REGEX,
+} from '../validation/patterns';
+
+export interface SwaggerGeneratorOptions {
+  errorFormat?: ErrorFormat;
+}
+
+const PROBLEM_DETAILS_SCHEMA: Schema = {
+  type: 'object',
+  description: 'RFC 7807 problem details',
+  required: ['type', 'title', 'status'],
+  properties: {
+    type: {type: 'string', format: 'uri-reference', example: 'about:blank'},
+    title: {type: 'string', example: 'Not Found'},
+    status: {type: 'integer', example: 404},
+    detail: {type: 'string'},
+    instance: {type: 'string', format: 'uri-reference'},
+  },
+};
 
 export class SwaggerGenerator {
   constructor(
     private config: SwaggerConfig,
-    private routeManager: RouteManager
+    private routeManager: RouteManager,
+    private options: SwaggerGeneratorOptions = {}
   ) {}
 
+  private readonly schemasInProgress = new Set<unknown>();
+
   /**
    * Generates OpenAPI 3.0 specification
    */
@@ -31,38 +72,17 @@ export class SwaggerGenerator {
       spec.servers = this.config.servers;
     }
 
+    if (this.options.errorFormat === 'problem') {
+      spec.components = {schemas: {ProblemDetails: PROBLEM_DETAILS_SCHEMA}};
+    }
+
     try {
       const controllers = getRegisteredControllers();
       const routes = this.routeManager.getRoutesWithMetadata();
 
       for (const route of routes) {
-        const swaggerPath = this.convertPathToSwagger(route.path || '/');
-
-        if (!spec.paths[swaggerPath]) {
-          spec.paths[swaggerPath] = {};
-        }
-
-        const operation = this.buildOperation(route, controllers);
-        const methodLower = route.method.toLowerCase();
-
-        // Safely assign operation to path item
-        const pathItem = spec.paths[swaggerPath];
-        switch (methodLower) {
-          case 'get':
-            pathItem.get = operation;
-            break;
-          case 'post':
-            pathItem.post = operation;
-            break;
-          case 'put':
-            pathItem.put = operation;
-            break;
-          case 'patch':
-            pathItem.patch = operation;
-            break;
-          case 'delete':
-            pathItem.delete = operation;
-            break;
+        for (const path of this.expandOptionalSegments(route.path || '/')) {
+          this.addOperation(spec, {...route, path}, controllers);
         }
       }
 
@@ -78,6 +98,63 @@ export class SwaggerGenerator {
     return spec;
   }
 
+  /**
+   * Adds the operation for a route to its OpenAPI path item
+   */
+  private addOperation(
+    spec: OpenAPISpec,
+    route: {
+      method: string;
+      path: string;
+      handler: Function;
+      metadata?: any;
+    },
+    controllers: any[]
+  ): void {
+    const swaggerPath = this.convertPathToSwagger(route.path);
+
+    if (!spec.paths[swaggerPath]) {
+      spec.paths[swaggerPath] = {};
+    }
+
+    const operation = this.buildOperation(route, controllers);
+    const methodLower = route.method.toLowerCase();
+
+    // Safely assign operation to path item
+    const pathItem = spec.paths[swaggerPath];
+    switch (methodLower) {
+      case 'get':
+        pathItem.get = operation;
+        break;
+      case 'post':
+        pathItem.post = operation;
+        break;
+      case 'put':
+        pathItem.put = operation;
+        break;
+      case 'patch':
+        pathItem.patch = operation;
+        break;
+      case 'delete':
+        pathItem.delete = operation;
+        break;
+      case 'head':
+        pathItem.head = operation;
+        break;
+      case 'options':
+        pathItem.options = operation;
+        break;
+      case 'all':
+        // Routes registered with @All are documented under every common method
+        pathItem.get ??= operation;
+        pathItem.post ??= operation;
+        pathItem.put ??= operation;
+        pathItem.patch ??= operation;
+        pathItem.delete ??= operation;
+        break;
+    }
+  }
+
   /**
    * Builds an operation object for a route
    */
@@ -106,6 +183,13 @@ export class SwaggerGenerator {
       const apiResponses = getApiResponses(handler);
       const apiParameters = getApiParameters(handler);
       const apiBody = getApiBody(handler);
+      const params = getParams(handler);
+      const bodyGroups = route.metadata?.controller
+        ? getValidationMetadata(
+            route.metadata.controller.prototype,
+            route.metadata.handlerName
+          ).bodyOptions?.groups
+        : undefined;
 
       // Find controller tags
       const controllerTags = this.findControllerTags(handler, controllers);
@@ -120,10 +204,14 @@ export class SwaggerGenerator {
       this.applyResponses(operation, apiResponses);
 
       // Apply parameters
-      this.applyParameters(operation, route.path, apiParameters);
+      this.applyParameters(operation, route.path, apiParameters, params);
 
       // Apply request body
-      this.applyRequestBody(operation, apiBody);
+      this.applyRequestBody(operation, apiBody, params, bodyGroups);
+
+      if (this.options.errorFormat === 'problem') {
+        this.applyProblemResponses(operation);
+      }
     } catch (error) {
       // Graceful degradation: return basic operation if metadata extraction fails
       if (this.config.debug) {
@@ -216,32 +304,74 @@ export class SwaggerGenerator {
     }
   }
 
+  /**
+   * Documents error responses as application/problem+json and adds a
+   * default problem response for undeclared errors
+   */
+  private applyProblemResponses(operation: Operation): void {
+    const problemSchema: Schema = {$ref: '#/components/schemas/ProblemDetails'};
+
+    for (const [statusCode, response] of Object.entries(operation.responses)) {
+      if (Number(statusCode) < 400) continue;
+
+      const schema = response.content?.['application/json']?.schema;
+      response.content = {
+        [PROBLEM_CONTENT_TYPE]: {schema: schema || problemSchema},
+      };
+    }
+
+    operation.responses.default ??= {
+      description: 'Error response',
+      content: {[PROBLEM_CONTENT_TYPE]: {schema: problemSchema}},
+    };
+  }
+
   /**
    * Applies parameters (path, query, header) to operation
    */
   private applyParameters(
     operation: Operation,
     path: string,
-    apiParameters: any[]
+    apiParameters: any[],
+    params: ParamMetadata[] = []
   ): void {
     const pathParams = this.extractPathParameters(path);
-    if (pathParams.length === 0 && apiParameters.length === 0) return;
+    const decoratedParams = this.collectDecoratedParameters(params);
+    if (
+      pathParams.length === 0 &&
+      apiParameters.length === 0 &&
+      decoratedParams.length === 0
+    ) {
+      return;
+    }
 
     operation.parameters = [];
 
     // Add path parameters
     for (const param of pathParams) {
       const apiParam = apiParameters.find(
-        p => p.name === param && p.in === 'path'
+        p => p.name === param.name && p.in === 'path'
+      );
+      const paramDecorator = params.find(
+        p => p.source === 'param' && p.name === param.name
       );
+      const schema: Schema = {
+        type:
+          apiParam?.type ||
+          this.getPrimitiveSchemaType(paramDecorator?.metatype) ||
+          'string',
+      };
+      if (param.pattern) {
+        // Route constraints must match the whole segment
+        schema.pattern = `^(?:${param.pattern})$`;
+      }
+
       operation.parameters.push({
-        name: param,
+        name: param.name,
         in: 'path',
         required: true,
         description: apiParam?.description,
-        schema: {
-          type: apiParam?.type || 'string',
-        },
+        schema,
       });
     }
 
@@ -260,15 +390,110 @@ export class SwaggerGenerator {
         });
       }
     }
+
+    // Add query and header parameters declared with @Query / @Headers,
+    // unless already documented with @ApiParameter
+    for (const param of decoratedParams) {
+      const documented = operation.parameters.some(
+        p => p.name === param.name && p.in === param.in
+      );
+      if (!documented) {
+        operation.parameters.push(param);
+      }
+    }
   }
 
   /**
-   * Applies request body definition to operation
+   * Builds query and header parameters from parameter decorators. A whole
+   * query object typed with a DTO class documents each of its properties
    */
-  private applyRequestBody(operation: Operation, apiBody: any): void {
-    if (!apiBody || !apiBody.type) return;
+  private collectDecoratedParameters(params: ParamMetadata[]): Parameter[] {
+    const parameters: Parameter[] = [];
+
+    for (const param of params) {
+      if (param.source === 'headers' && param.name) {
+        parameters.push({
+          name: param.name,
+          in: 'header',
+          required: false,
+          schema: {type: 'string'},
+        });
+      }
 
-    const schema = this.buildSchemaFromType(apiBody.type);
+      if (param.source !== 'query') continue;
+
+      if (param.name) {
+        parameters.push({
+          name: param.name,
+          in: 'query',
+          required: false,
+          schema: {
+            type: this.getPrimitiveSchemaType(param.metatype) || 'string',
+          },
+        });
+      } else if (this.isDtoType(param.metatype)) {
+        const schema = this.buildSchemaFromType(param.metatype);
+        for (const [name, propSchema] of Object.entries(
+          schema.properties || {}
+        )) {
+          parameters.push({
+            name,
+            in: 'query',
+            required: schema.required?.includes(name) || false,
+            schema: propSchema,
+          });
+        }
+      }
+    }
+
+    return parameters;
+  }
+
+  /**
+   * Maps a primitive constructor from design:paramtypes to a schema type
+   */
+  private getPrimitiveSchemaType(metatype?: Function): string | undefined {
+    switch (metatype) {
+      case String:
+        return 'string';
+      case Number:
+        return 'number';
+      case Boolean:
+        return 'boolean';
+      default:
+        return undefined;
+    }
+  }
+
+  private isDtoType(metatype?: Function): boolean {
+    return (
+      !!metatype &&
+      !this.getPrimitiveSchemaType(metatype) &&
+      metatype !== Object &&
+      metatype !== Array
+    );
+  }
+
+  /**
+   * Applies request body definition to operation. Falls back to the DTO
+   * class type of a @Body() parameter when @ApiBody is not used. Only rules
+   * of the route's validation groups are documented
+   */
+  private applyRequestBody(
+    operation: Operation,
+    apiBody: any,
+    params: ParamMetadata[] = [],
+    groups?: string[]
+  ): void {
+    if (!apiBody || !apiBody.type) {
+      const bodyParam = params.find(
+        p => p.source === 'body' && !p.name && this.isDtoType(p.metatype)
+      );
+      if (!bodyParam) return;
+      apiBody = {type: bodyParam.metatype};
+    }
+
+    const schema = this.buildSchemaFromType(apiBody.type, false, groups);
     operation.requestBody = {
       description: apiBody.description,
       required: apiBody.required !== false,
@@ -283,22 +508,40 @@ export class SwaggerGenerator {
   /**
    * Builds a JSON Schema from a DTO class
    */
-  private buildSchemaFromType(type: any, isArray = false): Schema {
+  private buildSchemaFromType(
+    type: any,
+    isArray = false,
+    groups?: string[]
+  ): Schema {
     if (!type) {
       return {type: 'object'};
     }
 
     try {
-      const instance = new type();
       const properties: Record<string, Schema> = {};
       const required: string[] = [];
 
-      const propertyKeys = Object.getOwnPropertyNames(instance);
+      const propertyKeys = getDtoPropertyKeys(type);
 
+      this.schemasInProgress.add(type);
       for (const key of propertyKeys) {
-        const rules = getValidationRules(type.prototype, key);
-        const propSchema = this.buildPropertySchema(rules, required, key);
-        properties[key] = propSchema;
+        const rules = filterRulesByGroups(
+          getValidationRules(type.prototype, key),
+          groups
+        );
+        // Conditionally validated properties are never required
+        const propSchema = this.buildPropertySchema(
+          rules,
+          rules.some(rule => rule.constraint === 'validateIf') ? [] : required,
+          key
+        );
+        properties[key] = this.applyNestedSchema(
+          propSchema,
+          type,
+          key,
+          rules,
+          groups
+        );
       }
 
       const schema: Schema = {
@@ -317,9 +560,39 @@ export class SwaggerGenerator {
         console.warn('[Muzu Swagger] Failed to build schema from type:', error);
       }
       return {type: 'object'};
+    } finally {
+      this.schemasInProgress.delete(type);
     }
   }
 
+  /**
+   * Replaces the schema of a @ValidateNested property with the schema of its
+   * DTO class. Recursive references are documented as plain objects
+   */
+  private applyNestedSchema(
+    schema: Schema,
+    type: any,
+    propertyKey: string,
+    rules: any[],
+    groups?: string[]
+  ): Schema {
+    if (!rules.some(rule => rule.constraint === 'validateNested')) {
+      return schema;
+    }
+
+    const typeRule = rules.find(rule => rule.constraint === 'type');
+    const nestedType = typeRule
+      ? typeRule.value()
+      : Reflect.getMetadata('design:type', type.prototype, propertyKey);
+    const isArray = schema.type === 'array';
+
+    const nestedSchema = this.schemasInProgress.has(nestedType)
+      ? {type: 'object'}
+      : this.buildSchemaFromType(nestedType, false, groups);
+
+    return isArray ? {type: 'array', items: nestedSchema} : nestedSchema;
+  }
+
   /**
    * Builds a property schema from validation rules
    */
@@ -363,6 +636,9 @@ export class SwaggerGenerator {
       case 'isArray':
         schema.type = 'array';
         break;
+      case 'isObject':
+        schema.type = 'object';
+        break;
 
       // Format constraints
       case 'isEmail':
@@ -377,6 +653,51 @@ export class SwaggerGenerator {
         schema.type = 'string';
         schema.format = 'uuid';
         break;
+      case 'isIP':
+        schema.type = 'string';
+        schema.format = rule.value ? `ipv${rule.value}` : 'ip';
+        break;
+      case 'isISO8601':
+      case 'isDateString':
+        schema.type = 'string';
+        schema.format = 'date-time';
+        break;
+      case 'isJSON':
+        schema.type = 'string';
+        schema.format = 'json';
+        break;
+      case 'isBase64':
+        schema.type = 'string';
+        schema.format = 'byte';
+        break;
+      case 'isHexColor':
+        schema.type = 'string';
+        schema.pattern = HEX_COLOR_REGEX.source;
+        break;
+      case 'isAlphanumeric':
+        schema.type = 'string';
+        schema.pattern = ALPHANUMERIC_REGEX.source;
+        break;
+      case 'isPhoneNumber':
+        schema.type = 'string';
+        schema.pattern = E164_REGEX.source;
+        break;
+      case 'isSemVer':
+        schema.type = 'string';
+        schema.pattern = SEMVER_REGEX.source;
+        break;
+
+      // Date constraints
+      case 'minDate':
+        schema.type = 'string';
+        schema.format = 'date-time';
+        schema.description = `On or after ${rule.value.toISOString()}`;
+        break;
+      case 'maxDate':
+        schema.type = 'string';
+        schema.format = 'date-time';
+        schema.description = `On or before ${rule.value.toISOString()}`;
+        break;
 
       // Numeric constraints
       case 'min':
@@ -398,8 +719,28 @@ export class SwaggerGenerator {
           schema.pattern = rule.value.source;
         }
         break;
+      case 'isNotEmpty':
+        if (schema.type === 'string') {
+          schema.minLength = Math.max(schema.minLength ?? 0, 1);
+        }
+        break;
 
-      // Enum constraint
+      // Array constraints
+      case 'arrayUnique':
+        schema.type = 'array';
+        schema.uniqueItems = true;
+        break;
+      case 'arrayContains':
+        schema.type = 'array';
+        schema.description = `Must contain ${rule.value
+          .map((value: unknown) => JSON.stringify(value))
+          .join(', ')}`;
+        break;
+
+      // Enum constraints
+      case 'isIn':
+        schema.enum = [...rule.value];
+        break;
       case 'isEnum':
         if (typeof rule.value === 'object') {
           schema.enum = Object.values(rule.value);
@@ -479,22 +820,46 @@ export class SwaggerGenerator {
 
   /**
    * Converts Muzu path format to OpenAPI format
-   * Example: /users/:id -> /users/{id}
+   * Example: /users/:id(\d+) -> /users/{id}, /files/*path -> /files/{path}
    */
   private convertPathToSwagger(path: string): string {
-    return path.replace(/:([^/]+)/g, '{$1}');
+    return path
+      .split('/')
+      .map(segment => {
+        const param = parsePathSegment(segment);
+        return param ? `{${param.name}}` : segment;
+      })
+      .join('/');
   }
 
   /**
-   * Extracts path parameter names from a route
-   * Example: /users/:id/posts/:postId -> ['id', 'postId']
+   * Expands optional path parameters into every concrete path variant
+   * Example: /docs/:lang?/intro -> ['/docs/:lang?/intro', '/docs/intro']
    */
-  private extractPathParameters(path: string): string[] {
-    const params: string[] = [];
-    const regex = /:([^/]+)/g;
-    let match;
-    while ((match = regex.exec(path)) !== null) {
-      params.push(match[1]);
+  private expandOptionalSegments(path: string): string[] {
+    let variants: string[][] = [[]];
+
+    for (const segment of path.split('/')) {
+      const param = parsePathSegment(segment);
+      const required = variants.map(variant => [...variant, segment]);
+      variants = param?.optional ? [...required, ...variants] : required;
+    }
+
+    return variants.map(variant => variant.join('/') || '/');
+  }
+
+  /**
+   * Extracts path parameters from a route
+   * Example: /users/:id(\d+)/posts/:postId -> [{name: 'id', pattern: '\d+'}, ...]
+   * Example: /files/*path -> [{name: 'path'}], /* -> [{name: 'wildcard'}]
+   */
+  private extractPathParameters(path: string): PathSegment[] {
+    const params: PathSegment[] = [];
+    for (const segment of path.split('/')) {
+      const param = parsePathSegment(segment);
+      if (param) {
+        params.push(param);
+      }
     }
     return params;
   }
@@ -59,6 +59,8 @@ export interface PathItem {
   put?: Operation;
   patch?: Operation;
   delete?: Operation;
+  head?: Operation;
+  options?: Operation;
   parameters?: Parameter[];
 }
 
@@ -110,5 +112,6 @@ export interface Schema {
   minLength?: number;
   maxLength?: number;
   pattern?: string;
+  uniqueItems?: boolean;
   $ref?: string;
 }
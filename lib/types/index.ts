@@ -1,14 +1,41 @@
 import {ServerResponse} from 'http';
-import {Request} from '../interfaces';
+import {ErrorReport, Request} from '../interfaces';
 
 export type Response = ServerResponse;
 
 export type RouteHandler = (req: Request, res: Response) => string;
 
+/**
+ * Continues to the next middleware (or the route handler) and resolves with
+ * the downstream result
+ */
+export type NextFunction = () => Promise<any>;
+
+/**
+ * `production` hides stack traces of unexpected errors from clients
+ */
+export type ServerMode = 'development' | 'production';
+
+/**
+ * `problem` renders errors as RFC 7807 `application/problem+json` documents
+ */
+export type ErrorFormat = 'default' | 'problem';
+
+/**
+ * Receives every unexpected (non-MuzuException) error with its correlation id
+ */
+export type ErrorReporter = (
+  error: unknown,
+  report: ErrorReport
+) => void | Promise<void>;
+
 export enum RequestMethod {
   GET = 'GET',
   POST = 'POST',
   DELETE = 'DELETE',
   PUT = 'PUT',
   PATCH = 'PATCH',
+  HEAD = 'HEAD',
+  OPTIONS = 'OPTIONS',
+  ALL = 'ALL',
 }
@@ -1,7 +1,31 @@
-import {getValidationRules, ValidationRule} from './metadata';
+import {
+  filterRulesByGroups,
+  getDtoPropertyKeys,
+  getValidationRules,
+  ValidationRule,
+} from './metadata';
+import {MessageCatalog, resolveValidationMessage} from './messages';
+import {ValidationOptions} from './parameter-decorators';
 import {ValidationError} from '../exceptions/validation.exception';
+import {REJECTED_KEYS} from './transformer';
+import {isIP} from 'net';
+import {
+  ALPHANUMERIC_REGEX,
+  BASE64_REGEX,
+  E164_REGEX,
+  HEX_COLOR_REGEX,
+  ISO8601_REGEX,
+  SEMVER_REGEX,
+} from './patterns';
 
-export type CompiledValidator = (obj: unknown) => ValidationError[];
+/**
+ * Validates an object, taking error messages from the catalog when given.
+ * Validators of DTOs using async constraints return a Promise
+ */
+export type CompiledValidator = (
+  obj: unknown,
+  messages?: MessageCatalog
+) => ValidationError[] | Promise<ValidationError[]>;
 
 interface PropertyValidation {
   propertyKey: string;
@@ -20,14 +44,62 @@ const URL_REGEX =
 const UUID_REGEX =
   /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
 
-interface ConstraintHandler {
+/**
+ * A constraint compiled to inline code. `value` is the expression reading the
+ * property; failures are reported by calling
+ * `pushError(field, constraint, value, message)`
+ */
+export interface CodeConstraint {
   generateCode: (
     propertyKey: string,
     rule: ValidationRule,
-    value: string
+    value: string,
+    isAsync: boolean
   ) => string;
 }
 
+export interface ConstraintArguments {
+  property: string;
+  rule: ValidationRule;
+  object: Record<string, unknown>;
+}
+
+/**
+ * A constraint checked by calling a function. Async constraints (declared
+ * with `async: true` or an async `validate`) make the DTO validator async
+ */
+export interface CallbackConstraint {
+  validate: (
+    value: unknown,
+    args: ConstraintArguments
+  ) => boolean | Promise<boolean>;
+  async?: boolean;
+  message?: string | ((args: ConstraintArguments) => string);
+}
+
+export type ConstraintHandler = CodeConstraint | CallbackConstraint;
+
+const CONSTRAINT_NAME_REGEX = /^[A-Za-z_$][\w$]*$/;
+
+function isJSONObject(value: string): boolean {
+  try {
+    const parsed = JSON.parse(value);
+    return typeof parsed === 'object' && parsed !== null;
+  } catch {
+    return false;
+  }
+}
+
+function generateISO8601Code(
+  constraint: string,
+  prop: string,
+  val: string
+): string {
+  return `if (typeof ${val} !== 'string' || !ISO8601_REGEX.test(${val}) || isNaN(Date.parse(${val}))) {
+    pushError('${prop}', '${constraint}', ${val}, '${prop} must be a valid ISO 8601 date string');
+  }`;
+}
+
 const constraintHandlers: Record<string, ConstraintHandler> = {
   // Type validators
   isString: {
@@ -54,6 +126,12 @@ const constraintHandlers: Record<string, ConstraintHandler> = {
     pushError('${prop}', 'isDate', ${val}, '${prop} must be a valid date');
   }`,
   },
+  isObject: {
+    generateCode: (prop, _rule, val) =>
+      `if (typeof ${val} !== 'object' || ${val} === null || Array.isArray(${val})) {
+    pushError('${prop}', 'isObject', ${val}, '${prop} must be an object');
+  }`,
+  },
 
   // Format validators
   isEmail: {
@@ -75,6 +153,61 @@ const constraintHandlers: Record<string, ConstraintHandler> = {
   }`,
   },
 
+  isIP: {
+    generateCode: (prop, rule, val) =>
+      rule.value
+        ? `if (typeof ${val} !== 'string' || isIP(${val}) !== ${rule.value}) {
+    pushError('${prop}', 'isIP', ${val}, '${prop} must be a valid IPv${rule.value} address');
+  }`
+        : `if (typeof ${val} !== 'string' || isIP(${val}) === 0) {
+    pushError('${prop}', 'isIP', ${val}, '${prop} must be a valid IP address');
+  }`,
+  },
+  isISO8601: {
+    generateCode: (prop, _rule, val) =>
+      generateISO8601Code('isISO8601', prop, val),
+  },
+  isDateString: {
+    generateCode: (prop, _rule, val) =>
+      generateISO8601Code('isDateString', prop, val),
+  },
+  isJSON: {
+    generateCode: (prop, _rule, val) =>
+      `if (typeof ${val} !== 'string' || !isJSONObject(${val})) {
+    pushError('${prop}', 'isJSON', ${val}, '${prop} must be a valid JSON string');
+  }`,
+  },
+  isHexColor: {
+    generateCode: (prop, _rule, val) =>
+      `if (typeof ${val} !== 'string' || !HEX_COLOR_REGEX.test(${val})) {
+    pushError('${prop}', 'isHexColor', ${val}, '${prop} must be a hexadecimal color');
+  }`,
+  },
+  isAlphanumeric: {
+    generateCode: (prop, _rule, val) =>
+      `if (typeof ${val} !== 'string' || !ALPHANUMERIC_REGEX.test(${val})) {
+    pushError('${prop}', 'isAlphanumeric', ${val}, '${prop} must contain only letters and numbers');
+  }`,
+  },
+  isPhoneNumber: {
+    generateCode: (prop, _rule, val) =>
+      `if (typeof ${val} !== 'string' || !E164_REGEX.test(${val})) {
+    pushError('${prop}', 'isPhoneNumber', ${val}, '${prop} must be a valid E.164 phone number');
+  }`,
+  },
+  isSemVer: {
+    generateCode: (prop, _rule, val) =>
+      `if (typeof ${val} !== 'string' || !SEMVER_REGEX.test(${val})) {
+    pushError('${prop}', 'isSemVer', ${val}, '${prop} must be a semantic version');
+  }`,
+  },
+  isBase64: {
+    generateCode: (prop, _rule, val) =>
+      `if (typeof ${val} !== 'string' || !BASE64_REGEX.test(${val})) {
+    pushError('${prop}', 'isBase64', ${val}, '${prop} must be base64 encoded');
+  }`,
+  },
+
   // Number validators
   isInt: {
     generateCode: (prop, _rule, val) =>
@@ -107,7 +240,27 @@ const constraintHandlers: Record<string, ConstraintHandler> = {
   }`,
   },
 
+  // Date validators
+  minDate: {
+    generateCode: (prop, rule, val) =>
+      `if (${val} instanceof Date && ${val}.getTime() < ${rule.value.getTime()}) {
+    pushError('${prop}', 'minDate', ${val}, '${prop} must be on or after ${rule.value.toISOString()}');
+  }`,
+  },
+  maxDate: {
+    generateCode: (prop, rule, val) =>
+      `if (${val} instanceof Date && ${val}.getTime() > ${rule.value.getTime()}) {
+    pushError('${prop}', 'maxDate', ${val}, '${prop} must be on or before ${rule.value.toISOString()}');
+  }`,
+  },
+
   // String validators
+  isNotEmpty: {
+    generateCode: (prop, _rule, val) =>
+      `if (${val} === undefined || ${val} === null || ${val} === '') {
+    pushError('${prop}', 'isNotEmpty', ${val}, '${prop} should not be empty');
+  }`,
+  },
   minLength: {
     generateCode: (prop, rule, val) =>
       `if (typeof ${val} === 'string' && ${val}.length < ${rule.value}) {
@@ -146,17 +299,53 @@ const constraintHandlers: Record<string, ConstraintHandler> = {
     pushError('${prop}', 'arrayMaxSize', ${val}, '${prop} must contain at most ${rule.value} items');
   }`,
   },
+  arrayUnique: {
+    generateCode: (prop, _rule, val) =>
+      `if (Array.isArray(${val}) && new Set(${val}).size !== ${val}.length) {
+    pushError('${prop}', 'arrayUnique', ${val}, '${prop} must not contain duplicate items');
+  }`,
+  },
+  arrayContains: {
+    generateCode: (prop, _rule, val) =>
+      `if (Array.isArray(${val}) && !containsValues_${prop}.every(item => ${val}.includes(item))) {
+    pushError('${prop}', 'arrayContains', ${val}, '${prop} must contain all of the required values');
+  }`,
+  },
+  isIn: {
+    generateCode: (prop, _rule, val) =>
+      `if (!allowedValues_${prop}.includes(${val})) {
+    pushError('${prop}', 'isIn', ${val}, '${prop} must be one of the allowed values');
+  }`,
+  },
   isEnum: {
     generateCode: (prop, _rule, val) =>
       `if (!Object.values(enumValues_${prop}).includes(${val})) {
     pushError('${prop}', 'isEnum', ${val}, '${prop} must be one of the allowed values');
   }`,
   },
+  validateNested: {
+    generateCode: (prop, _rule, val, isAsync) =>
+      `if (Array.isArray(${val})) {
+    for (let i = 0; i < ${val}.length; i++) {
+      ${awaitIf(
+        isAsync
+      )}pushNestedErrors(\`${prop}[\${i}]\`, ${val}[i], nested_${prop});
+    }
+  } else {
+    ${awaitIf(isAsync)}pushNestedErrors('${prop}', ${val}, nested_${prop});
+  }`,
+  },
   arrayItem: {
-    generateCode: (prop, _rule, val) =>
+    generateCode: (prop, _rule, val, isAsync) =>
       `if (Array.isArray(${val})) {
     for (let i = 0; i < ${val}.length; i++) {
-      const itemErrors = validators_${prop}(${val}[i]);
+      if (typeof ${val}[i] !== 'object' || ${val}[i] === null) {
+        pushError(\`${prop}[\${i}]\`, 'arrayItem', ${val}[i], \`${prop}[\${i}] must be an object\`);
+        continue;
+      }
+      const itemErrors = ${awaitIf(
+        isAsync
+      )}validators_${prop}(${val}[i], messages);
       for (const err of itemErrors) {
         errors.push({
           field: \`${prop}[\${i}].\${err.field}\`,
@@ -170,17 +359,140 @@ const constraintHandlers: Record<string, ConstraintHandler> = {
   },
 };
 
+/**
+ * Registers a custom constraint, applied to properties with
+ * `@ValidateBy(name)`. Built-in constraints cannot be replaced
+ */
+export function registerConstraint(
+  name: string,
+  handler: ConstraintHandler
+): void {
+  if (!CONSTRAINT_NAME_REGEX.test(name)) {
+    throw new Error(`Invalid constraint name "${name}"`);
+  }
+  if (Object.prototype.hasOwnProperty.call(constraintHandlers, name)) {
+    throw new Error(`Constraint "${name}" is already registered`);
+  }
+  constraintHandlers[name] = handler;
+}
+
+function awaitIf(isAsync: boolean): string {
+  return isAsync ? 'await ' : '';
+}
+
+function isAsyncConstraint(handler: ConstraintHandler | undefined): boolean {
+  if (!handler || !('validate' in handler)) return false;
+  return (
+    handler.async === true ||
+    handler.validate.constructor.name === 'AsyncFunction'
+  );
+}
+
+function getConstraintMessage(
+  handler: CallbackConstraint,
+  args: ConstraintArguments
+): string {
+  if (typeof handler.message === 'function') {
+    return handler.message(args);
+  }
+  return handler.message ?? `${args.property} is invalid`;
+}
+
+/**
+ * Fails loudly when a constraint compiled as sync returns a Promise, which
+ * would otherwise always count as passing
+ */
+function assertSyncResult(constraint: string, result: unknown): unknown {
+  if (typeof (result as PromiseLike<unknown>)?.then === 'function') {
+    throw new Error(
+      `Constraint "${constraint}" returned a Promise; register it with async: true`
+    );
+  }
+  return result;
+}
+
+function generateCallbackCode(
+  prop: string,
+  constraint: string,
+  ruleIndex: number,
+  val: string,
+  isAsync: boolean
+): string {
+  const call = `constraint_${constraint}.validate(${val}, args)`;
+  const result = isAsync
+    ? `await ${call}`
+    : `assertSyncResult('${constraint}', ${call})`;
+  return `{
+    const args = {property: '${prop}', rule: rules_${prop}[${ruleIndex}], object: obj};
+    if (!(${result})) {
+      pushError('${prop}', '${constraint}', ${val}, getConstraintMessage(constraint_${constraint}, args));
+    }
+  }`;
+}
+
+/**
+ * Whether validating the DTO, or any DTO nested in it, runs an async
+ * constraint
+ */
+function hasAsyncConstraints(
+  dtoClass: unknown,
+  groups?: string[],
+  visited: Set<unknown> = new Set()
+): boolean {
+  if (visited.has(dtoClass)) return false;
+  visited.add(dtoClass);
+
+  const prototype = (dtoClass as {prototype: object}).prototype;
+
+  for (const propertyKey of getDtoPropertyKeys(dtoClass)) {
+    const rules = filterRulesByGroups(
+      getValidationRules(prototype, propertyKey),
+      groups
+    );
+    for (const rule of rules) {
+      if (isAsyncConstraint(constraintHandlers[rule.constraint])) return true;
+      if (
+        rule.constraint === 'arrayItem' &&
+        hasAsyncConstraints((rule.value as () => unknown)(), groups, visited)
+      ) {
+        return true;
+      }
+    }
+    if (
+      rules.some(r => r.constraint === 'validateNested') &&
+      hasAsyncConstraints(
+        getNestedType(dtoClass, propertyKey, rules),
+        groups,
+        visited
+      )
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
 function generatePropertyValidation(
   propertyKey: string,
   rules: ValidationRule[],
-  isOptional: boolean
+  isOptional: boolean,
+  isAsync: boolean
 ): string {
   const codes: string[] = [];
   const value = `obj.${propertyKey}`;
   const hasRequired = rules.some(r => r.constraint === 'isRequired');
+  const hasCondition = rules.some(r => r.constraint === 'validateIf');
+
+  if (hasCondition) {
+    codes.push(
+      `if (conditions_${propertyKey}.every(condition => condition(obj, ${value}))) {`
+    );
+  }
 
   if (hasRequired) {
+    const requiredIndex = rules.findIndex(r => r.constraint === 'isRequired');
     codes.push(`
+  activeRule = rules_${propertyKey}[${requiredIndex}];
   if (${value} === undefined || ${value} === null) {
     pushError('${propertyKey}', 'isRequired', ${value}, '${propertyKey} is required');
   }`);
@@ -190,44 +502,166 @@ function generatePropertyValidation(
     codes.push(`if (${value} !== undefined && ${value} !== null) {`);
   }
 
-  for (const rule of rules) {
+  rules.forEach((rule, index) => {
     if (rule.constraint === 'isOptional' || rule.constraint === 'isRequired') {
-      continue;
+      return;
     }
 
     const handler = constraintHandlers[rule.constraint];
-    if (handler) {
-      codes.push('  ' + handler.generateCode(propertyKey, rule, value));
+    if (!handler) return;
+    // Lets pushError resolve the rule's custom or translated message
+    codes.push(`  activeRule = rules_${propertyKey}[${index}];`);
+    if ('generateCode' in handler) {
+      codes.push(
+        '  ' + handler.generateCode(propertyKey, rule, value, isAsync)
+      );
+    } else {
+      codes.push(
+        '  ' +
+          generateCallbackCode(
+            propertyKey,
+            rule.constraint,
+            index,
+            value,
+            isAsync
+          )
+      );
     }
-  }
+  });
 
   if (isOptional && !hasRequired) {
     codes.push('}');
   }
 
+  if (hasCondition) {
+    codes.push('}');
+  }
+
   return codes.join('\n');
 }
 
-export function compileValidator(dtoClass: unknown): CompiledValidator {
-  const instance = new (dtoClass as new () => object)();
-  const propertyKeys = Object.getOwnPropertyNames(instance);
+/**
+ * Strips undeclared properties from the validated object, or reports them
+ * when they are forbidden
+ */
+function generateWhitelistCheck(forbid: boolean): string {
+  const onUnknown = forbid
+    ? "pushError(key, 'whitelistValidation', obj[key], 'property ' + key + ' should not exist');"
+    : 'delete obj[key];';
+
+  // Keys the transformer refused to copy are only visible through
+  // REJECTED_KEYS, and are reported like any other unknown key
+  const rejectedCheck = forbid
+    ? `
+    const rejected = obj[REJECTED_KEYS];
+    if (rejected) {
+      for (const key of Object.keys(rejected)) {
+        pushError(key, 'whitelistValidation', rejected[key], 'property ' + key + ' should not exist');
+      }
+    }`
+    : '';
+
+  return `  if (obj !== null && typeof obj === 'object' && !Array.isArray(obj)) {
+    for (const key of Object.keys(obj)) {
+      if (!KNOWN_KEYS.has(key)) {
+        ${onUnknown}
+      }
+    }${rejectedCheck}
+  }`;
+}
+
+/**
+ * Resolves the DTO class of a @ValidateNested property from @Type, falling
+ * back to the declared property type
+ */
+function getNestedType(
+  dtoClass: unknown,
+  propertyKey: string,
+  rules: ValidationRule[]
+): unknown {
+  const typeRule = rules.find(r => r.constraint === 'type');
+  if (typeRule) {
+    return (typeRule.value as () => unknown)();
+  }
+
+  const designType = Reflect.getMetadata(
+    'design:type',
+    (dtoClass as {prototype: object}).prototype,
+    propertyKey
+  );
+  if (!designType || designType === Object || designType === Array) {
+    throw new Error(
+      `@ValidateNested() on ${propertyKey} needs @Type(() => Class) to resolve its type`
+    );
+  }
+  return designType;
+}
+
+/**
+ * Compiles a DTO class into a validation function. Nested DTOs are compiled
+ * once per class and referenced lazily, so recursive DTOs do not loop
+ */
+export function compileValidator(
+  dtoClass: unknown,
+  options: ValidationOptions = {},
+  compiled: Map<unknown, CompiledValidator> = new Map()
+): CompiledValidator {
+  const cached = compiled.get(dtoClass);
+  if (cached) return cached;
 
+  // Recursive references resolve to the validator once it is compiled
+  const reference: {validate?: CompiledValidator} = {};
+  compiled.set(dtoClass, (obj, messages) => reference.validate!(obj, messages));
+
+  const propertyKeys = getDtoPropertyKeys(dtoClass);
+
+  const isAsync = hasAsyncConstraints(dtoClass, options.groups);
   const validations: PropertyValidation[] = [];
   const context: CompilationContext = {
     EMAIL_REGEX,
     URL_REGEX,
     UUID_REGEX,
+    HEX_COLOR_REGEX,
+    ALPHANUMERIC_REGEX,
+    E164_REGEX,
+    SEMVER_REGEX,
+    ISO8601_REGEX,
+    BASE64_REGEX,
+    isIP,
+    isJSONObject,
+    getConstraintMessage,
+    assertSyncResult,
+    resolveValidationMessage,
   };
 
   for (const propertyKey of propertyKeys) {
-    const rules = getValidationRules(
-      (dtoClass as {prototype: object}).prototype,
-      propertyKey
+    // Rules outside the selected groups are dropped at compile time
+    const rules = filterRulesByGroups(
+      getValidationRules(
+        (dtoClass as {prototype: object}).prototype,
+        propertyKey
+      ),
+      options.groups
     );
     if (rules.length === 0) continue;
 
     const isOptional = rules.some(r => r.constraint === 'isOptional');
 
+    const conditionRules = rules.filter(r => r.constraint === 'validateIf');
+    if (conditionRules.length > 0) {
+      context[`conditions_${propertyKey}`] = conditionRules.map(r => r.value);
+    }
+
+    const isInRule = rules.find(r => r.constraint === 'isIn');
+    if (isInRule) {
+      context[`allowedValues_${propertyKey}`] = isInRule.value;
+    }
+
+    const arrayContainsRule = rules.find(r => r.constraint === 'arrayContains');
+    if (arrayContainsRule) {
+      context[`containsValues_${propertyKey}`] = arrayContainsRule.value;
+    }
+
     const enumRule = rules.find(r => r.constraint === 'isEnum');
     if (enumRule) {
       context[`enumValues_${propertyKey}`] = enumRule.value;
@@ -241,23 +675,69 @@ export function compileValidator(dtoClass: unknown): CompiledValidator {
     const arrayItemRule = rules.find(r => r.constraint === 'arrayItem');
     if (arrayItemRule) {
       const itemDtoClass = (arrayItemRule.value as () => unknown)();
-      context[`validators_${propertyKey}`] = compileValidator(itemDtoClass);
+      context[`validators_${propertyKey}`] = compileValidator(
+        itemDtoClass,
+        options,
+        compiled
+      );
     }
 
+    if (rules.some(r => r.constraint === 'validateNested')) {
+      context[`nested_${propertyKey}`] = compileValidator(
+        getNestedType(dtoClass, propertyKey, rules),
+        options,
+        compiled
+      );
+    }
+
+    for (const rule of rules) {
+      const handler = constraintHandlers[rule.constraint];
+      if (handler && 'validate' in handler) {
+        context[`constraint_${rule.constraint}`] = handler;
+      }
+    }
+    context[`rules_${propertyKey}`] = rules;
+
     validations.push({propertyKey, rules, isOptional});
   }
 
-  let code = 'return function validate(obj) {\n';
+  let code = `return ${
+    isAsync ? 'async ' : ''
+  }function validate(obj, messages) {\n`;
   code += '  const errors = [];\n';
+  code += '  let activeRule;\n';
   code += '  const pushError = (field, constraint, value, message) => {\n';
-  code += '    errors.push({field, constraint, value, message});\n';
+  code += '    errors.push({field, constraint, value, message:\n';
+  code +=
+    '      resolveValidationMessage(activeRule, field, constraint, value, message, messages)});\n';
+  code += '  };\n';
+  code += `  const pushNestedErrors = ${
+    isAsync ? 'async ' : ''
+  }(field, value, validateNested) => {\n`;
+  code += "    if (typeof value !== 'object' || value === null) {\n";
+  code +=
+    "      pushError(field, 'validateNested', value, field + ' must be an object');\n";
+  code += '      return;\n';
+  code += '    }\n';
+  code += `    for (const err of ${awaitIf(
+    isAsync
+  )}validateNested(value, messages)) {\n`;
+  code += "      errors.push({...err, field: field + '.' + err.field});\n";
+  code += '    }\n';
   code += '  };\n';
 
+  if (options.whitelist || options.forbidNonWhitelisted) {
+    context.KNOWN_KEYS = new Set(propertyKeys);
+    context.REJECTED_KEYS = REJECTED_KEYS;
+    code += '\n' + generateWhitelistCheck(!!options.forbidNonWhitelisted);
+  }
+
   for (const {propertyKey, rules, isOptional} of validations) {
     const validationCode = generatePropertyValidation(
       propertyKey,
       rules,
-      isOptional
+      isOptional,
+      isAsync
     );
     if (validationCode.trim()) {
       code += '\n' + validationCode;
@@ -268,5 +748,6 @@ export function compileValidator(dtoClass: unknown): CompiledValidator {
   code += '}';
 
   const func = new Function(...Object.keys(context), code);
-  return func(...Object.values(context)) as CompiledValidator;
+  reference.validate = func(...Object.values(context)) as CompiledValidator;
+  return reference.validate;
 }
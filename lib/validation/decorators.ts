@@ -1,103 +1,291 @@
-import {addValidationRule} from './metadata';
+import {addValidationRule, ValidationRuleOptions} from './metadata';
 
 function createValidationDecorator(
   constraint: string,
-  value?: any
+  value?: any,
+  options: ValidationRuleOptions = {}
 ): PropertyDecorator {
   return (target: any, propertyKey: string | symbol) => {
-    addValidationRule(target, propertyKey as string, {constraint, value});
+    addValidationRule(target, propertyKey as string, {
+      constraint,
+      value,
+      groups: options.groups,
+      message: options.message,
+    });
   };
 }
 
 // Type validators
-export function IsString(): PropertyDecorator {
-  return createValidationDecorator('isString');
+export function IsString(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isString', undefined, options);
 }
 
-export function IsNumber(): PropertyDecorator {
-  return createValidationDecorator('isNumber');
+export function IsNumber(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isNumber', undefined, options);
 }
 
-export function IsBoolean(): PropertyDecorator {
-  return createValidationDecorator('isBoolean');
+export function IsBoolean(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isBoolean', undefined, options);
 }
 
-export function IsDate(): PropertyDecorator {
-  return createValidationDecorator('isDate');
+export function IsDate(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isDate', undefined, options);
+}
+
+/**
+ * Accepts non-null, non-array objects
+ */
+export function IsObject(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isObject', undefined, options);
 }
 
 // String validators
-export function MinLength(length: number): PropertyDecorator {
-  return createValidationDecorator('minLength', length);
+export function MinLength(
+  length: number,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('minLength', length, options);
+}
+
+export function MaxLength(
+  length: number,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('maxLength', length, options);
+}
+
+export function IsEmail(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isEmail', undefined, options);
+}
+
+export function IsUrl(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isUrl', undefined, options);
+}
+
+export function IsUUID(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isUUID', undefined, options);
+}
+
+export function Matches(
+  pattern: RegExp,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('matches', pattern, options);
+}
+
+/**
+ * Rejects undefined, null and empty strings
+ */
+export function IsNotEmpty(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isNotEmpty', undefined, options);
+}
+
+export function IsAlphanumeric(
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('isAlphanumeric', undefined, options);
+}
+
+/**
+ * Accepts IPv4 and IPv6 addresses, or only the given version
+ */
+export function IsIP(
+  version?: 4 | 6,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('isIP', version, options);
+}
+
+/**
+ * Accepts ISO 8601 date strings such as `2026-03-01` or `2026-03-01T10:00:00Z`
+ */
+export function IsISO8601(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isISO8601', undefined, options);
+}
+
+/**
+ * Alias of IsISO8601
+ */
+export function IsDateString(
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('isDateString', undefined, options);
 }
 
-export function MaxLength(length: number): PropertyDecorator {
-  return createValidationDecorator('maxLength', length);
+/**
+ * Accepts strings containing a JSON object or array
+ */
+export function IsJSON(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isJSON', undefined, options);
 }
 
-export function IsEmail(): PropertyDecorator {
-  return createValidationDecorator('isEmail');
+export function IsHexColor(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isHexColor', undefined, options);
 }
 
-export function IsUrl(): PropertyDecorator {
-  return createValidationDecorator('isUrl');
+/**
+ * Accepts phone numbers in E.164 format, such as `+14155552671`
+ */
+export function IsPhoneNumber(
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('isPhoneNumber', undefined, options);
+}
+
+export function IsSemVer(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isSemVer', undefined, options);
 }
 
-export function IsUUID(): PropertyDecorator {
-  return createValidationDecorator('isUUID');
+export function IsBase64(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isBase64', undefined, options);
 }
 
-export function Matches(pattern: RegExp): PropertyDecorator {
-  return createValidationDecorator('matches', pattern);
+// Date validators
+export function MinDate(
+  date: Date,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('minDate', date, options);
+}
+
+export function MaxDate(
+  date: Date,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('maxDate', date, options);
 }
 
 // Number validators
-export function Min(value: number): PropertyDecorator {
-  return createValidationDecorator('min', value);
+export function Min(
+  value: number,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('min', value, options);
 }
 
-export function Max(value: number): PropertyDecorator {
-  return createValidationDecorator('max', value);
+export function Max(
+  value: number,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('max', value, options);
 }
 
-export function IsInt(): PropertyDecorator {
-  return createValidationDecorator('isInt');
+export function IsInt(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isInt', undefined, options);
 }
 
-export function IsPositive(): PropertyDecorator {
-  return createValidationDecorator('isPositive');
+export function IsPositive(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isPositive', undefined, options);
 }
 
-export function IsNegative(): PropertyDecorator {
-  return createValidationDecorator('isNegative');
+export function IsNegative(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isNegative', undefined, options);
 }
 
 // General validators
-export function IsOptional(): PropertyDecorator {
-  return createValidationDecorator('isOptional');
+export function IsOptional(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isOptional', undefined, options);
+}
+
+export function IsRequired(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isRequired', undefined, options);
+}
+
+export function IsIn(
+  values: readonly unknown[],
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('isIn', values, options);
 }
 
-export function IsRequired(): PropertyDecorator {
-  return createValidationDecorator('isRequired');
+export function IsEnum(
+  enumType: object,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('isEnum', enumType, options);
 }
 
-export function IsEnum(enumType: object): PropertyDecorator {
-  return createValidationDecorator('isEnum', enumType);
+/**
+ * Skips every rule of the property when the condition returns false
+ */
+export function ValidateIf(
+  condition: (obj: any, value: any) => boolean,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('validateIf', condition, options);
 }
 
 // Array validators
-export function IsArray(): PropertyDecorator {
-  return createValidationDecorator('isArray');
+export function IsArray(options?: ValidationRuleOptions): PropertyDecorator {
+  return createValidationDecorator('isArray', undefined, options);
 }
 
-export function ArrayMinSize(size: number): PropertyDecorator {
-  return createValidationDecorator('arrayMinSize', size);
+export function ArrayMinSize(
+  size: number,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('arrayMinSize', size, options);
 }
 
-export function ArrayMaxSize(size: number): PropertyDecorator {
-  return createValidationDecorator('arrayMaxSize', size);
+export function ArrayMaxSize(
+  size: number,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('arrayMaxSize', size, options);
 }
 
-export function ArrayItem(type: () => any): PropertyDecorator {
-  return createValidationDecorator('arrayItem', type);
+export function ArrayUnique(
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('arrayUnique', undefined, options);
+}
+
+export function ArrayContains(
+  values: readonly unknown[],
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('arrayContains', values, options);
+}
+
+export function ArrayItem(
+  type: () => any,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('arrayItem', type, options);
+}
+
+// Custom validators
+/**
+ * Applies a constraint registered with `registerConstraint`. `value` is
+ * passed to the constraint as `rule.value`
+ */
+export function ValidateBy(
+  constraint: string,
+  value?: any,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator(constraint, value, options);
+}
+
+// Nested validators
+/**
+ * Validates a nested object (or each item of an array) against its DTO class.
+ * The class comes from @Type, or from the declared property type when
+ * @Type is omitted. Errors are reported with dotted paths like `address.zip`
+ */
+export function ValidateNested(
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('validateNested', undefined, options);
+}
+
+/**
+ * Declares the DTO class of a nested property. The thunk allows referencing
+ * classes declared later and recursive DTOs
+ */
+export function Type(
+  type: () => any,
+  options?: ValidationRuleOptions
+): PropertyDecorator {
+  return createValidationDecorator('type', type, options);
 }
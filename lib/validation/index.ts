@@ -1,4 +1,8 @@
 export * from './decorators';
 export * from './parameter-decorators';
 export * from './compiler';
+export * from './query-coercion';
+export * from './transformer';
 export * from './metadata';
+export * from './messages';
+export * from './mapped-types';
@@ -0,0 +1,154 @@
+import 'reflect-metadata';
+import {
+  getDtoPropertyKeys,
+  getValidationRules,
+  registerValidatedProperty,
+  ValidationRule,
+  VALIDATION_METADATA_KEY,
+} from './metadata';
+
+export type DtoClass<T = any> = new () => T;
+
+type UnionToIntersection<U> = (
+  U extends unknown ? (k: U) => void : never
+) extends (k: infer I) => void
+  ? I
+  : never;
+
+/**
+ * Copies the validation rules and declared types of the given properties
+ * from one DTO class to another
+ */
+function inheritValidationMetadata(
+  source: DtoClass,
+  target: DtoClass,
+  propertyKeys: string[],
+  mapRules: (rules: ValidationRule[]) => ValidationRule[] = rules => rules
+): void {
+  for (const propertyKey of propertyKeys) {
+    const rules = mapRules(getValidationRules(source.prototype, propertyKey));
+    Reflect.defineMetadata(
+      VALIDATION_METADATA_KEY,
+      rules,
+      target.prototype,
+      propertyKey
+    );
+    registerValidatedProperty(target.prototype, propertyKey);
+
+    const designType = Reflect.getMetadata(
+      'design:type',
+      source.prototype,
+      propertyKey
+    );
+    if (designType) {
+      Reflect.defineMetadata(
+        'design:type',
+        designType,
+        target.prototype,
+        propertyKey
+      );
+    }
+  }
+}
+
+/**
+ * Creates a class whose instances declare the given properties, with the
+ * default values of each source class unless `withDefaults` is false
+ */
+function createMappedClass(
+  name: string,
+  sources: {classRef: DtoClass; propertyKeys: string[]}[],
+  withDefaults = true
+): DtoClass {
+  const mapped = class {
+    constructor() {
+      for (const {classRef, propertyKeys} of sources) {
+        const defaults = withDefaults ? new classRef() : {};
+        for (const propertyKey of propertyKeys) {
+          (this as Record<string, unknown>)[propertyKey] =
+            defaults[propertyKey];
+        }
+      }
+    }
+  };
+  Object.defineProperty(mapped, 'name', {value: name});
+  return mapped;
+}
+
+function makeOptional(rules: ValidationRule[]): ValidationRule[] {
+  const optionalRules = rules.filter(rule => rule.constraint !== 'isRequired');
+  if (!optionalRules.some(rule => rule.constraint === 'isOptional')) {
+    optionalRules.push({constraint: 'isOptional'});
+  }
+  return optionalRules;
+}
+
+/**
+ * Creates a DTO class with every property of `classRef` made optional.
+ * Defaults are not copied, so omitted properties stay undefined
+ */
+export function PartialType<T>(classRef: DtoClass<T>): DtoClass<Partial<T>> {
+  const propertyKeys = getDtoPropertyKeys(classRef);
+  const mapped = createMappedClass(
+    `Partial${classRef.name}`,
+    [{classRef, propertyKeys}],
+    false
+  );
+  inheritValidationMetadata(classRef, mapped, propertyKeys, makeOptional);
+  return mapped;
+}
+
+/**
+ * Creates a DTO class with only the given properties of `classRef`
+ */
+export function PickType<T, K extends keyof T>(
+  classRef: DtoClass<T>,
+  keys: readonly K[]
+): DtoClass<Pick<T, K>> {
+  const propertyKeys = getDtoPropertyKeys(classRef).filter(key =>
+    keys.includes(key as K)
+  );
+  const mapped = createMappedClass(`Pick${classRef.name}`, [
+    {classRef, propertyKeys},
+  ]);
+  inheritValidationMetadata(classRef, mapped, propertyKeys);
+  return mapped;
+}
+
+/**
+ * Creates a DTO class with every property of `classRef` except the given ones
+ */
+export function OmitType<T, K extends keyof T>(
+  classRef: DtoClass<T>,
+  keys: readonly K[]
+): DtoClass<Omit<T, K>> {
+  const propertyKeys = getDtoPropertyKeys(classRef).filter(
+    key => !keys.includes(key as K)
+  );
+  const mapped = createMappedClass(`Omit${classRef.name}`, [
+    {classRef, propertyKeys},
+  ]);
+  inheritValidationMetadata(classRef, mapped, propertyKeys);
+  return mapped;
+}
+
+/**
+ * Creates a DTO class combining the properties of every given class. When
+ * classes share a property, the last one's rules and default win
+ */
+export function IntersectionType<T extends DtoClass[]>(
+  ...classRefs: T
+): DtoClass<UnionToIntersection<InstanceType<T[number]>>> {
+  const sources = classRefs.map(classRef => ({
+    classRef,
+    propertyKeys: getDtoPropertyKeys(classRef),
+  }));
+  const mapped = createMappedClass(
+    classRefs.map(classRef => classRef.name).join(''),
+    sources
+  );
+  for (const {classRef, propertyKeys} of sources) {
+    inheritValidationMetadata(classRef, mapped, propertyKeys);
+  }
+  return mapped;
+}
@@ -0,0 +1,119 @@
+import {ValidationRule} from './metadata';
+
+export interface ValidationMessageArguments {
+  property: string;
+  value: unknown;
+  constraint: string;
+  /**
+   * The value passed to the decorator, such as `3` for `@MinLength(3)`
+   */
+  constraintValue?: unknown;
+}
+
+/**
+ * A message template or a function building the message. Templates may use
+ * the `{property}`, `{value}` and `{constraintValue}` placeholders
+ */
+export type ValidationMessage =
+  | string
+  | ((args: ValidationMessageArguments) => string);
+
+/**
+ * Messages keyed by constraint name, such as `isString` or `minLength`
+ */
+export type MessageCatalog = Record<string, ValidationMessage>;
+
+export interface ValidationMessagesOptions {
+  /**
+   * Catalogs keyed by language tag (`fr`, `pt-BR`), selected per request from
+   * the Accept-Language header
+   */
+  catalogs: Record<string, MessageCatalog>;
+  /**
+   * Catalog used when Accept-Language matches none. Without it, the
+   * built-in English messages are used
+   */
+  defaultLocale?: string;
+}
+
+const PLACEHOLDER_REGEX = /\{(property|value|constraintValue)\}/g;
+
+function formatMessage(
+  message: ValidationMessage,
+  args: ValidationMessageArguments
+): string {
+  if (typeof message === 'function') {
+    return message(args);
+  }
+  return message.replace(PLACEHOLDER_REGEX, (_match, key: string) =>
+    String(args[key as keyof ValidationMessageArguments])
+  );
+}
+
+/**
+ * Picks the message of a validation error: the decorator's `message` option
+ * first, then the request's catalog, then the built-in message
+ */
+export function resolveValidationMessage(
+  rule: ValidationRule | undefined,
+  property: string,
+  constraint: string,
+  value: unknown,
+  defaultMessage: string,
+  catalog?: MessageCatalog
+): string {
+  const message =
+    rule?.constraint === constraint && rule.message !== undefined
+      ? rule.message
+      : catalog && Object.prototype.hasOwnProperty.call(catalog, constraint)
+      ? catalog[constraint]
+      : undefined;
+  if (message === undefined) {
+    return defaultMessage;
+  }
+  return formatMessage(message, {
+    property,
+    value,
+    constraint,
+    constraintValue: rule?.constraint === constraint ? rule.value : undefined,
+  });
+}
+
+/**
+ * Returns the catalog best matching an Accept-Language header, comparing
+ * full tags first and primary subtags (`fr` for `fr-CH`) second
+ */
+export function selectMessageCatalog(
+  acceptLanguage: string | undefined,
+  options: ValidationMessagesOptions
+): MessageCatalog | undefined {
+  const {catalogs, defaultLocale} = options;
+  const fallback = defaultLocale ? catalogs[defaultLocale] : undefined;
+  if (!acceptLanguage) return fallback;
+
+  const locales = Object.keys(catalogs);
+  const ranges = acceptLanguage
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.find(p => p.trim().startsWith('q='));
+      return {
+        tag: tag.trim().toLowerCase(),
+        q: quality ? Number(quality.trim().substring(2)) : 1,
+      };
+    })
+    .filter(range => range.tag && range.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  for (const {tag} of ranges) {
+    if (tag === '*') return fallback;
+    const exact = locales.find(locale => locale.toLowerCase() === tag);
+    if (exact) return catalogs[exact];
+    const primary = tag.split('-')[0];
+    const partial = locales.find(
+      locale => locale.toLowerCase().split('-')[0] === primary
+    );
+    if (partial) return catalogs[partial];
+  }
+  return fallback;
+}
@@ -1,10 +1,39 @@
 import 'reflect-metadata';
+import {ValidationMessage} from './messages';
 
 export const VALIDATION_METADATA_KEY = 'muzu:validation';
+export const VALIDATION_PROPERTIES_KEY = 'muzu:validation:properties';
 
 export interface ValidationRule {
   constraint: string;
   value?: any;
+  groups?: string[];
+  message?: ValidationMessage;
+}
+
+export interface ValidationRuleOptions {
+  /**
+   * Groups the rule belongs to. Grouped rules only apply when one of their
+   * groups is selected with `@ValidateBody(Dto, {groups})`
+   */
+  groups?: string[];
+  /**
+   * Replaces the built-in message. Takes precedence over message catalogs
+   */
+  message?: ValidationMessage;
+}
+
+/**
+ * Keeps the rules that apply to the selected groups: rules without groups
+ * always apply, grouped rules only when one of their groups is selected
+ */
+export function filterRulesByGroups(
+  rules: ValidationRule[],
+  groups: string[] = []
+): ValidationRule[] {
+  return rules.filter(
+    rule => !rule.groups || rule.groups.some(group => groups.includes(group))
+  );
 }
 
 export function getValidationRules(
@@ -28,4 +57,48 @@ export function addValidationRule(
     target,
     propertyKey
   );
+  registerValidatedProperty(target, propertyKey);
+}
+
+/**
+ * Records a decorated property on its class, so properties declared without
+ * an initializer are still found
+ */
+export function registerValidatedProperty(
+  target: any,
+  propertyKey: string
+): void {
+  const properties: string[] =
+    Reflect.getOwnMetadata(VALIDATION_PROPERTIES_KEY, target) || [];
+  if (!properties.includes(propertyKey)) {
+    Reflect.defineMetadata(
+      VALIDATION_PROPERTIES_KEY,
+      [...properties, propertyKey],
+      target
+    );
+  }
+}
+
+/**
+ * Lists the properties of a DTO class: the instance's own properties, then
+ * decorated properties declared on the class or its parent classes
+ */
+export function getDtoPropertyKeys(dtoClass: unknown): string[] {
+  const DtoClass = dtoClass as new () => object;
+  const keys = new Set(Object.getOwnPropertyNames(new DtoClass()));
+
+  const prototypes: object[] = [];
+  let prototype = DtoClass.prototype;
+  while (prototype && prototype !== Object.prototype) {
+    prototypes.unshift(prototype);
+    prototype = Object.getPrototypeOf(prototype);
+  }
+  for (const target of prototypes) {
+    const properties: string[] =
+      Reflect.getOwnMetadata(VALIDATION_PROPERTIES_KEY, target) || [];
+    for (const propertyKey of properties) {
+      keys.add(propertyKey);
+    }
+  }
+  return [...keys];
 }
@@ -2,9 +2,32 @@ import 'reflect-metadata';
 
 export const VALIDATION_BODY_KEY = 'muzu:validation:body';
 export const VALIDATION_QUERY_KEY = 'muzu:validation:query';
+export const VALIDATION_BODY_OPTIONS_KEY = 'muzu:validation:body:options';
+
+export interface ValidationOptions {
+  /**
+   * Removes properties not declared on the DTO (at every nesting level)
+   */
+  whitelist?: boolean;
+  /**
+   * Rejects properties not declared on the DTO with a validation error
+   * instead of removing them
+   */
+  forbidNonWhitelisted?: boolean;
+  /**
+   * Hands the handler an instance of the DTO class instead of the plain
+   * body. Class defaults are applied before validation
+   */
+  transform?: boolean;
+  /**
+   * Validation groups to apply. Rules without groups always apply
+   */
+  groups?: string[];
+}
 
 export interface ValidationMetadata {
   bodyDto?: any;
+  bodyOptions?: ValidationOptions;
   queryDto?: any;
 }
 
@@ -14,17 +37,31 @@ export function getValidationMetadata(
 ): ValidationMetadata {
   return {
     bodyDto: Reflect.getMetadata(VALIDATION_BODY_KEY, target, propertyKey),
+    bodyOptions: Reflect.getMetadata(
+      VALIDATION_BODY_OPTIONS_KEY,
+      target,
+      propertyKey
+    ),
     queryDto: Reflect.getMetadata(VALIDATION_QUERY_KEY, target, propertyKey),
   };
 }
 
-export function ValidateBody(dto: any): MethodDecorator {
+export function ValidateBody(
+  dto: any,
+  options?: ValidationOptions
+): MethodDecorator {
   return (
     target: any,
     propertyKey: string | symbol,
     descriptor: PropertyDescriptor
   ) => {
     Reflect.defineMetadata(VALIDATION_BODY_KEY, dto, target, propertyKey);
+    Reflect.defineMetadata(
+      VALIDATION_BODY_OPTIONS_KEY,
+      options,
+      target,
+      propertyKey
+    );
     return descriptor;
   };
 }
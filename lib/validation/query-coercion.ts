@@ -0,0 +1,116 @@
+import {
+  getDtoPropertyKeys,
+  getValidationRules,
+  ValidationRule,
+} from './metadata';
+
+/**
+ * Converts raw query string values to the types declared on a query DTO
+ */
+export type QueryCoercer = (
+  query: Record<string, unknown>
+) => Record<string, unknown>;
+
+type CoercionTarget = 'array' | 'boolean' | 'number' | 'date' | 'enum';
+
+const NUMBER_CONSTRAINTS = [
+  'isNumber',
+  'isInt',
+  'isPositive',
+  'isNegative',
+  'min',
+  'max',
+];
+
+// Hex, binary, exponent and Infinity forms are left for validation to reject
+const DECIMAL_REGEX = /^-?\d+(\.\d+)?$/;
+
+function getCoercionTarget(
+  rules: ValidationRule[]
+): CoercionTarget | undefined {
+  const constraints = rules.map(rule => rule.constraint);
+
+  if (constraints.includes('isArray')) return 'array';
+  if (constraints.includes('isBoolean')) return 'boolean';
+  if (constraints.some(c => NUMBER_CONSTRAINTS.includes(c))) return 'number';
+  if (constraints.includes('isDate')) return 'date';
+  if (constraints.includes('isEnum')) return 'enum';
+  return undefined;
+}
+
+const coercionGenerators: Record<
+  CoercionTarget,
+  (prop: string, val: string) => string
+> = {
+  array: (prop, val) =>
+    `if (typeof ${val} === 'string') {
+    obj.${prop} = ${val} === '' ? [] : ${val}.split(',');
+  }`,
+  boolean: (prop, val) =>
+    `if (${val} === 'true' || ${val} === '1') {
+    obj.${prop} = true;
+  } else if (${val} === 'false' || ${val} === '0') {
+    obj.${prop} = false;
+  }`,
+  number: (prop, val) =>
+    `if (typeof ${val} === 'string' && DECIMAL_REGEX.test(${val}) && Number.isFinite(Number(${val}))) {
+    obj.${prop} = Number(${val});
+  }`,
+  date: (prop, val) =>
+    `if (typeof ${val} === 'string' && ${val} !== '' && !isNaN(Date.parse(${val}))) {
+    obj.${prop} = new Date(${val});
+  }`,
+  enum: (prop, val) =>
+    `if (typeof ${val} === 'string' && !enumValues_${prop}.includes(${val})) {
+    const numeric = Number(${val});
+    if (${val} !== '' && enumValues_${prop}.includes(numeric)) {
+      obj.${prop} = numeric;
+    }
+  }`,
+};
+
+/**
+ * Compiles a function that coerces query string values according to the
+ * type constraints of a DTO (numbers, booleans, dates, enums, and
+ * comma-separated arrays). Values that cannot be converted are left as
+ * strings so validation reports them. Returns undefined when no property
+ * needs coercion
+ */
+export function compileQueryCoercer(
+  dtoClass: unknown
+): QueryCoercer | undefined {
+  const propertyKeys = getDtoPropertyKeys(dtoClass);
+  const context: Record<string, unknown> = {DECIMAL_REGEX};
+  const codes: string[] = [];
+
+  for (const propertyKey of propertyKeys) {
+    const rules = getValidationRules(
+      (dtoClass as {prototype: object}).prototype,
+      propertyKey
+    );
+    const target = getCoercionTarget(rules);
+    if (!target) continue;
+
+    if (target === 'enum') {
+      const enumRule = rules.find(r => r.constraint === 'isEnum')!;
+      context[`enumValues_${propertyKey}`] = Object.values(
+        enumRule.value as object
+      );
+    }
+
+    codes.push(
+      '  ' + coercionGenerators[target](propertyKey, `obj.${propertyKey}`)
+    );
+  }
+
+  if (codes.length === 0) return undefined;
+
+  let code = 'return function coerce(query) {\n';
+  code += '  const obj = Object.assign({}, query);\n';
+  code += codes.join('\n');
+  code += '\n  return obj;\n';
+  code += '}';
+
+  const func = new Function(...Object.keys(context), code);
+  return func(...Object.values(context)) as QueryCoercer;
+}
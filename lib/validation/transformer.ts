@@ -0,0 +1,153 @@
+import {
+  getDtoPropertyKeys,
+  getValidationRules,
+  ValidationRule,
+} from './metadata';
+
+/**
+ * Turns a plain payload into an instance of its DTO class
+ */
+export type PayloadTransformer = (plain: unknown) => unknown;
+
+/**
+ * Holds the payload keys a transformed instance did not copy because they
+ * name an accessor or method, so forbidNonWhitelisted can still report them
+ */
+export const REJECTED_KEYS = Symbol('rejectedKeys');
+
+interface PropertyTransform {
+  propertyKey: string;
+  isDate: boolean;
+  nested?: PayloadTransformer;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !Array.isArray(value) &&
+    !(value instanceof Date)
+  );
+}
+
+/**
+ * Lists the accessors and methods of a class and its parents, including
+ * Object.prototype, which payload keys must not overwrite
+ */
+function getProtectedKeys(prototype: object): Set<string> {
+  const keys = new Set<string>(['__proto__']);
+  for (
+    let current: object | null = prototype;
+    current;
+    current = Object.getPrototypeOf(current)
+  ) {
+    for (const key of Object.getOwnPropertyNames(current)) {
+      const descriptor = Object.getOwnPropertyDescriptor(current, key)!;
+      if (
+        descriptor.get ||
+        descriptor.set ||
+        typeof descriptor.value === 'function'
+      ) {
+        keys.add(key);
+      }
+    }
+  }
+  return keys;
+}
+
+function getNestedThunk(rules: ValidationRule[]): (() => unknown) | undefined {
+  const rule =
+    rules.find(r => r.constraint === 'type') ||
+    rules.find(r => r.constraint === 'arrayItem');
+  return rule?.value as (() => unknown) | undefined;
+}
+
+/**
+ * Compiles a function that instantiates a DTO class from a plain object:
+ * class defaults apply to missing properties, ISO strings become Dates on
+ * @IsDate properties, and @Type / @ArrayItem properties are instantiated
+ * recursively. Values of the wrong shape are copied unchanged so validation
+ * can report them
+ */
+export function compileTransformer(
+  dtoClass: unknown,
+  compiled: Map<unknown, PayloadTransformer> = new Map()
+): PayloadTransformer {
+  const cached = compiled.get(dtoClass);
+  if (cached) return cached;
+
+  // Recursive references resolve to the transformer once it is compiled
+  const reference: {transform?: PayloadTransformer} = {};
+  compiled.set(dtoClass, plain => reference.transform!(plain));
+
+  const DtoClass = dtoClass as new () => Record<string, unknown>;
+  const propertyKeys = getDtoPropertyKeys(DtoClass);
+  const protectedKeys = getProtectedKeys(DtoClass.prototype);
+  const transforms: PropertyTransform[] = [];
+
+  for (const propertyKey of propertyKeys) {
+    const rules = getValidationRules(DtoClass.prototype, propertyKey);
+    const isDate = rules.some(r => r.constraint === 'isDate');
+
+    let nested: PayloadTransformer | undefined;
+    const thunk = getNestedThunk(rules);
+    if (thunk) {
+      nested = compileTransformer(thunk(), compiled);
+    } else if (rules.some(r => r.constraint === 'validateNested')) {
+      const designType = Reflect.getMetadata(
+        'design:type',
+        DtoClass.prototype,
+        propertyKey
+      );
+      if (designType && designType !== Object && designType !== Array) {
+        nested = compileTransformer(designType, compiled);
+      }
+    }
+
+    if (isDate || nested) {
+      transforms.push({propertyKey, isDate, nested});
+    }
+  }
+
+  const transformValue = (
+    {isDate, nested}: PropertyTransform,
+    value: unknown
+  ): unknown => {
+    if (isDate && typeof value === 'string' && !isNaN(Date.parse(value))) {
+      return new Date(value);
+    }
+    if (nested && isPlainObject(value)) {
+      return nested(value);
+    }
+    return value;
+  };
+
+  reference.transform = (plain: unknown) => {
+    if (!isPlainObject(plain)) return plain;
+
+    const instance = new DtoClass();
+    let rejected: Record<string, unknown> | undefined;
+    for (const key of Object.keys(plain)) {
+      // Skips "__proto__" (an own key after JSON.parse), getters, which
+      // would throw, and methods, which client data would replace
+      if (protectedKeys.has(key)) {
+        rejected = rejected || Object.create(null);
+        rejected![key] = plain[key];
+      } else {
+        instance[key] = plain[key];
+      }
+    }
+    if (rejected) {
+      Object.defineProperty(instance, REJECTED_KEYS, {value: rejected});
+    }
+    for (const transform of transforms) {
+      const value = instance[transform.propertyKey];
+      instance[transform.propertyKey] = Array.isArray(value)
+        ? value.map(item => transformValue(transform, item))
+        : transformValue(transform, value);
+    }
+    return instance;
+  };
+
+  return reference.transform;
+}
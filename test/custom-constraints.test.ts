@@ -0,0 +1,162 @@
+import {
+  MuzuServer,
+  Controller,
+  Post,
+  Body,
+  ValidateBody,
+  ValidateBy,
+  ValidateNested,
+  Type,
+  IsString,
+  IsOptional,
+  registerConstraint,
+  compileValidator,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+const takenEmails = new Set(['taken@example.com']);
+
+registerConstraint('isSlug', {
+  generateCode: (prop, _rule, val) =>
+    `if (typeof ${val} !== 'string' || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(${val})) {
+    pushError('${prop}', 'isSlug', ${val}, '${prop} must be a slug');
+  }`,
+});
+
+registerConstraint('isMultipleOf', {
+  validate: (value, {rule}) =>
+    typeof value === 'number' && value % (rule.value as number) === 0,
+  message: ({property, rule}) =>
+    `${property} must be a multiple of ${rule.value}`,
+});
+
+registerConstraint('isUniqueEmail', {
+  validate: async value => {
+    await new Promise(resolve => setTimeout(resolve, 5));
+    return !takenEmails.has(value as string);
+  },
+  message: 'email is already registered',
+});
+
+const IsSlug = () => ValidateBy('isSlug');
+const IsMultipleOf = (factor: number) => ValidateBy('isMultipleOf', factor);
+const IsUniqueEmail = () => ValidateBy('isUniqueEmail');
+
+class OwnerDto {
+  @IsUniqueEmail()
+  email = '';
+}
+
+class ProjectDto {
+  @IsSlug()
+  slug = '';
+
+  @IsMultipleOf(5)
+  @IsOptional()
+  quota?: number;
+
+  @ValidateNested()
+  @Type(() => OwnerDto)
+  @IsOptional()
+  owner?: OwnerDto;
+}
+
+class TagDto {
+  @IsString()
+  @IsSlug()
+  name = '';
+}
+
+@Controller('/constraints')
+class ConstraintsController {
+  @Post('/projects')
+  @ValidateBody(ProjectDto)
+  create(@Body() project: ProjectDto) {
+    return project;
+  }
+}
+
+const muzuServer = new MuzuServer();
+const port = 3020;
+muzuServer.listen(port);
+
+describe('Custom Constraints', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should accept values passing custom constraints', async () => {
+    const res = await request(muzuServer.server)
+      .post('/constraints/projects')
+      .send({slug: 'my-project', quota: 10, owner: {email: 'new@example.com'}});
+    expect(res.status).toBe(200);
+  });
+
+  it('should report code-generated and callback constraints', async () => {
+    const res = await request(muzuServer.server)
+      .post('/constraints/projects')
+      .send({slug: 'My Project', quota: 7});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      {
+        field: 'slug',
+        constraint: 'isSlug',
+        value: 'My Project',
+        message: 'slug must be a slug',
+      },
+      {
+        field: 'quota',
+        constraint: 'isMultipleOf',
+        value: 7,
+        message: 'quota must be a multiple of 5',
+      },
+    ]);
+  });
+
+  it('should await async constraints in nested DTOs', async () => {
+    const res = await request(muzuServer.server)
+      .post('/constraints/projects')
+      .send({slug: 'my-project', owner: {email: 'taken@example.com'}});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      {
+        field: 'owner.email',
+        constraint: 'isUniqueEmail',
+        value: 'taken@example.com',
+        message: 'email is already registered',
+      },
+    ]);
+  });
+
+  it('should only compile async validators when needed', () => {
+    expect(compileValidator(TagDto)({name: 'a-b'})).toEqual([]);
+    expect(compileValidator(ProjectDto)({slug: 'a'})).toBeInstanceOf(Promise);
+  });
+
+  it('should throw when a sync constraint returns a Promise', () => {
+    registerConstraint('isKnownSku', {
+      validate: value => Promise.resolve(value === 'sku-1'),
+    });
+    class ItemDto {
+      @ValidateBy('isKnownSku')
+      sku = '';
+    }
+
+    expect(() => compileValidator(ItemDto)({sku: 'sku-2'})).toThrow(
+      'Constraint "isKnownSku" returned a Promise; register it with async: true'
+    );
+  });
+
+  it('should reject invalid or duplicate constraint names', () => {
+    const handler = {validate: () => true};
+    expect(() => registerConstraint('isString', handler)).toThrow(
+      'Constraint "isString" is already registered'
+    );
+    expect(() => registerConstraint('isSlug', handler)).toThrow();
+    expect(() => registerConstraint('is-slug', handler)).toThrow(
+      'Invalid constraint name "is-slug"'
+    );
+  });
+});
@@ -0,0 +1,99 @@
+import {
+  MuzuServer,
+  Controller,
+  Get,
+  ErrorReport,
+  HttpException,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+@Controller('/errors')
+class ErrorsController {
+  @Get('/unknown')
+  unknown() {
+    throw new Error('Database password is wrong');
+  }
+
+  @Get('/known')
+  known() {
+    throw new HttpException(409, 'Conflict');
+  }
+}
+
+const reports: {error: unknown; report: ErrorReport}[] = [];
+
+const productionServer = new MuzuServer({
+  mode: 'production',
+  errorReporter: (error, report) => {
+    reports.push({error, report});
+  },
+});
+const developmentServer = new MuzuServer({
+  mode: 'development',
+  errorReporter: () => {
+    throw new Error('Reporter is down');
+  },
+});
+
+productionServer.listen(3009);
+developmentServer.listen(3010);
+
+describe('Production-safe errors', () => {
+  beforeEach(() => {
+    reports.length = 0;
+  });
+
+  afterAll(() => {
+    clearRegistry();
+    productionServer.stop();
+    developmentServer.stop();
+  });
+
+  it('should hide the stack and attach a correlation id in production', async () => {
+    const res = await request(productionServer.server).get('/errors/unknown');
+    expect(res.status).toBe(500);
+    expect(res.body).toEqual({
+      message: 'Internal Server Error',
+      correlationId: expect.any(String),
+    });
+    expect(res.text).not.toContain('Database password');
+  });
+
+  it('should send the full error to the reporter', async () => {
+    const res = await request(productionServer.server).get('/errors/unknown');
+    expect(reports).toHaveLength(1);
+    expect((reports[0].error as Error).message).toBe(
+      'Database password is wrong'
+    );
+    expect(reports[0].report.correlationId).toBe(res.body.correlationId);
+    expect(reports[0].report.req.url).toBe('/errors/unknown');
+  });
+
+  it('should reuse the x-request-id header as correlation id', async () => {
+    const res = await request(productionServer.server)
+      .get('/errors/unknown')
+      .set('X-Request-Id', 'req-123');
+    expect(res.body.correlationId).toBe('req-123');
+    expect(reports[0].report.correlationId).toBe('req-123');
+  });
+
+  it('should not report or alter MuzuExceptions', async () => {
+    const res = await request(productionServer.server).get('/errors/known');
+    expect(res.status).toBe(409);
+    expect(res.body.message).toBe('Conflict');
+    expect(res.body.correlationId).toBeUndefined();
+    expect(reports).toHaveLength(0);
+  });
+
+  it('should include the stack in development', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const res = await request(developmentServer.server).get('/errors/unknown');
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+
+    expect(res.status).toBe(500);
+    expect(res.body.correlationId).toEqual(expect.any(String));
+    expect(res.body.stack).toContain('Database password is wrong');
+  });
+});
@@ -0,0 +1,108 @@
+import {
+  MuzuServer,
+  Controller,
+  Get,
+  UnauthorizedException,
+  TooManyRequestsException,
+  ConflictException,
+  GoneException,
+  PayloadTooLargeException,
+  UnsupportedMediaTypeException,
+  UnprocessableEntityException,
+  ServiceUnavailableException,
+  HttpException,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+@Controller('/exceptions')
+class ExceptionsController {
+  @Get('/unauthorized')
+  unauthorized() {
+    throw new UnauthorizedException('Token expired', undefined, {
+      'WWW-Authenticate': 'Bearer error="invalid_token"',
+    });
+  }
+
+  @Get('/rate-limited')
+  rateLimited() {
+    throw new TooManyRequestsException(
+      undefined,
+      {limit: 100},
+      {
+        'Retry-After': '60',
+      }
+    );
+  }
+
+  @Get('/custom')
+  custom() {
+    throw new HttpException(418, "I'm a teapot", undefined, {
+      'X-Teapot': 'yes',
+    });
+  }
+
+  @Get('/conflict')
+  conflict() {
+    throw new ConflictException();
+  }
+}
+
+const muzuServer = new MuzuServer();
+const port = 3012;
+muzuServer.listen(port);
+
+describe('HTTP Exceptions', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should send exception headers without adding them to the body', async () => {
+    const res = await request(muzuServer.server).get(
+      '/exceptions/unauthorized'
+    );
+    expect(res.status).toBe(401);
+    expect(res.headers['www-authenticate']).toBe(
+      'Bearer error="invalid_token"'
+    );
+    expect(res.headers['content-type']).toBe('application/json');
+    expect(res.body).toEqual({
+      kind: 'MuzuException',
+      status: 401,
+      message: 'Token expired',
+    });
+  });
+
+  it('should use default messages and keep details', async () => {
+    const res = await request(muzuServer.server).get(
+      '/exceptions/rate-limited'
+    );
+    expect(res.status).toBe(429);
+    expect(res.headers['retry-after']).toBe('60');
+    expect(res.body).toEqual({
+      kind: 'MuzuException',
+      status: 429,
+      message: 'Too Many Requests!',
+      details: {limit: 100},
+    });
+  });
+
+  it('should allow headers on HttpException', async () => {
+    const res = await request(muzuServer.server).get('/exceptions/custom');
+    expect(res.status).toBe(418);
+    expect(res.headers['x-teapot']).toBe('yes');
+  });
+
+  it('should map each exception to its status code', async () => {
+    const res = await request(muzuServer.server).get('/exceptions/conflict');
+    expect(res.status).toBe(409);
+    expect(res.body.message).toBe('Conflict!');
+
+    expect(new GoneException().status).toBe(410);
+    expect(new PayloadTooLargeException().status).toBe(413);
+    expect(new UnsupportedMediaTypeException().status).toBe(415);
+    expect(new UnprocessableEntityException().status).toBe(422);
+    expect(new ServiceUnavailableException().status).toBe(503);
+  });
+});
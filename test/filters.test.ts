@@ -0,0 +1,128 @@
+import {
+  MuzuServer,
+  Controller,
+  Get,
+  Catch,
+  UseFilters,
+  ExceptionFilter,
+  ExceptionContext,
+  HttpException,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class EntityNotFound extends Error {
+  constructor(readonly entity: string) {
+    super(`${entity} not found`);
+  }
+}
+
+class QuotaExceeded extends Error {}
+
+@Catch(EntityNotFound)
+class EntityNotFoundFilter implements ExceptionFilter<EntityNotFound> {
+  catch(exception: EntityNotFound) {
+    return new HttpException(404, exception.message, {
+      entity: exception.entity,
+    });
+  }
+}
+
+@Catch(QuotaExceeded)
+class QuotaExceededFilter implements ExceptionFilter<QuotaExceeded> {
+  catch(_exception: QuotaExceeded, {res}: ExceptionContext) {
+    res.writeHead(429, {'Content-Type': 'text/plain'});
+    res.end('Slow down');
+  }
+}
+
+@Catch(HttpException)
+class ControllerHttpFilter implements ExceptionFilter<HttpException> {
+  catch(exception: HttpException, {res}: ExceptionContext) {
+    res.statusCode = exception.status;
+    return {error: {code: exception.status, reason: exception.message}};
+  }
+}
+
+class GlobalFilter implements ExceptionFilter {
+  catch(exception: Error, {res}: ExceptionContext) {
+    res.statusCode = (exception as HttpException).status || 500;
+    return {error: 'global', message: exception.message};
+  }
+}
+
+@Controller('/filtered')
+@UseFilters(ControllerHttpFilter)
+class FilteredController {
+  @Get('/entity')
+  @UseFilters(EntityNotFoundFilter)
+  entity() {
+    throw new EntityNotFound('User');
+  }
+
+  @Get('/quota')
+  @UseFilters(new QuotaExceededFilter())
+  quota() {
+    throw new QuotaExceeded();
+  }
+
+  @Get('/http')
+  http() {
+    throw new HttpException(409, 'Conflict');
+  }
+
+  @Get('/unknown')
+  unknown() {
+    throw new Error('Boom');
+  }
+}
+
+const muzuServer = new MuzuServer();
+const port = 3008;
+muzuServer.useFilters(GlobalFilter);
+muzuServer.listen(port);
+
+describe('Exception Filters', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should map domain errors to HTTP exceptions with a method filter', async () => {
+    const res = await request(muzuServer.server).get('/filtered/entity');
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({
+      kind: 'MuzuException',
+      message: 'User not found',
+      status: 404,
+      details: {entity: 'User'},
+    });
+  });
+
+  it('should let a filter write the response itself', async () => {
+    const res = await request(muzuServer.server).get('/filtered/quota');
+    expect(res.status).toBe(429);
+    expect(res.text).toBe('Slow down');
+  });
+
+  it('should customize the error body with a controller filter', async () => {
+    const res = await request(muzuServer.server).get('/filtered/http');
+    expect(res.status).toBe(409);
+    expect(res.body).toEqual({error: {code: 409, reason: 'Conflict'}});
+  });
+
+  it('should fall back to global filters', async () => {
+    const res = await request(muzuServer.server).get('/filtered/unknown');
+    expect(res.status).toBe(500);
+    expect(res.body).toEqual({error: 'global', message: 'Boom'});
+  });
+
+  it('should apply global filters to routing errors', async () => {
+    const res = await request(muzuServer.server).get('/missing');
+    expect(res.status).toBe(404);
+    expect(res.body).toEqual({
+      error: 'global',
+      message: 'Route GET /missing not found',
+    });
+  });
+});
@@ -0,0 +1,158 @@
+import {
+  MuzuServer,
+  Request,
+  Controller,
+  Get,
+  Post,
+  UseGuards,
+  CanActivate,
+  ExecutionContext,
+  HttpException,
+  Middleware,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class AuthGuard implements CanActivate {
+  canActivate({req}: ExecutionContext) {
+    return req.headers.authorization === 'Bearer token';
+  }
+}
+
+class AdminGuard implements CanActivate {
+  async canActivate({req}: ExecutionContext) {
+    return new Promise<boolean>(resolve => {
+      setTimeout(() => resolve(req.headers['x-role'] === 'admin'), 10);
+    });
+  }
+}
+
+class ContextGuard implements CanActivate {
+  canActivate({controller, handler}: ExecutionContext) {
+    if (controller !== GuardedController || handler.name !== 'context') {
+      throw new HttpException(401, 'Unexpected context');
+    }
+    return true;
+  }
+}
+
+class UserGuard implements CanActivate {
+  canActivate({req}: ExecutionContext) {
+    return req.user?.name === 'Ada';
+  }
+}
+
+function Authenticate(req: Request) {
+  if (req.headers.authorization === 'Bearer ada') {
+    req.user = {name: 'Ada'};
+  }
+}
+
+let bodyParsed = false;
+
+@Controller('/guarded')
+@UseGuards(AuthGuard)
+class GuardedController {
+  @Get('/profile')
+  profile() {
+    return {message: 'Profile'};
+  }
+
+  @Get('/admin')
+  @UseGuards(new AdminGuard())
+  admin() {
+    return {message: 'Admin'};
+  }
+
+  @Get('/context')
+  @UseGuards(ContextGuard)
+  context() {
+    return {message: 'Context'};
+  }
+
+  @Post('/upload')
+  upload(req: Request) {
+    bodyParsed = req.body !== undefined;
+    return {message: 'Uploaded'};
+  }
+}
+
+@Controller('/session')
+class SessionController {
+  @Get('/me')
+  @Middleware(Authenticate)
+  @UseGuards(UserGuard)
+  me(req: Request) {
+    return {name: req.user.name};
+  }
+}
+
+const muzuServer = new MuzuServer();
+const port = 3006;
+muzuServer.listen(port);
+
+describe('Guards', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should allow requests when controller guards pass', async () => {
+    const res = await request(muzuServer.server)
+      .get('/guarded/profile')
+      .set('Authorization', 'Bearer token');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({message: 'Profile'});
+  });
+
+  it('should return 403 when a guard denies the request', async () => {
+    const res = await request(muzuServer.server).get('/guarded/profile');
+    expect(res.status).toBe(403);
+    expect(res.body).toEqual({
+      kind: 'MuzuException',
+      message: 'Forbidden resource',
+      status: 403,
+    });
+  });
+
+  it('should evaluate async method guards after controller guards', async () => {
+    const denied = await request(muzuServer.server)
+      .get('/guarded/admin')
+      .set('Authorization', 'Bearer token');
+    expect(denied.status).toBe(403);
+
+    const allowed = await request(muzuServer.server)
+      .get('/guarded/admin')
+      .set('Authorization', 'Bearer token')
+      .set('X-Role', 'admin');
+    expect(allowed.status).toBe(200);
+    expect(allowed.body).toEqual({message: 'Admin'});
+  });
+
+  it('should pass the controller and handler to guards', async () => {
+    const res = await request(muzuServer.server)
+      .get('/guarded/context')
+      .set('Authorization', 'Bearer token');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({message: 'Context'});
+  });
+
+  it('should reject before parsing the body', async () => {
+    const res = await request(muzuServer.server)
+      .post('/guarded/upload')
+      .send('Not a JSON');
+    expect(res.status).toBe(403);
+    expect(bodyParsed).toBe(false);
+  });
+
+  it('should run guards after middleware', async () => {
+    const res = await request(muzuServer.server)
+      .get('/session/me')
+      .set('Authorization', 'Bearer ada');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({name: 'Ada'});
+
+    const anonymous = await request(muzuServer.server).get('/session/me');
+    expect(anonymous.status).toBe(403);
+  });
+});
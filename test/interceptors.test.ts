@@ -0,0 +1,101 @@
+import {
+  MuzuServer,
+  Controller,
+  Get,
+  UseInterceptors,
+  Interceptor,
+  ExecutionContext,
+  NextFunction,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class TimingInterceptor implements Interceptor {
+  async intercept({res}: ExecutionContext, next: NextFunction) {
+    const result = await next();
+    res.setHeader('X-Intercepted', 'true');
+    return result;
+  }
+}
+
+class EnvelopeInterceptor implements Interceptor {
+  async intercept(_context: ExecutionContext, next: NextFunction) {
+    const data = await next();
+    return {data};
+  }
+}
+
+class UpperCaseInterceptor implements Interceptor {
+  async intercept(_context: ExecutionContext, next: NextFunction) {
+    const result = await next();
+    return {message: result.message.toUpperCase()};
+  }
+}
+
+class CacheInterceptor implements Interceptor {
+  private cache = new Map<string, unknown>();
+
+  async intercept({req}: ExecutionContext, next: NextFunction) {
+    if (!this.cache.has(req.url!)) {
+      this.cache.set(req.url!, await next());
+    }
+    return this.cache.get(req.url!);
+  }
+}
+
+let handlerCalls = 0;
+
+@Controller('/intercepted')
+@UseInterceptors(EnvelopeInterceptor)
+class InterceptedController {
+  @Get('/hello')
+  hello() {
+    return {message: 'hello'};
+  }
+
+  @Get('/upper')
+  @UseInterceptors(UpperCaseInterceptor)
+  upper() {
+    return {message: 'hello'};
+  }
+
+  @Get('/cached')
+  @UseInterceptors(new CacheInterceptor())
+  async cached() {
+    handlerCalls++;
+    return {calls: handlerCalls};
+  }
+}
+
+const muzuServer = new MuzuServer();
+const port = 3007;
+muzuServer.useInterceptors(TimingInterceptor);
+muzuServer.listen(port);
+
+describe('Interceptors', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should apply global and controller interceptors', async () => {
+    const res = await request(muzuServer.server).get('/intercepted/hello');
+    expect(res.status).toBe(200);
+    expect(res.headers['x-intercepted']).toBe('true');
+    expect(res.body).toEqual({data: {message: 'hello'}});
+  });
+
+  it('should run method interceptors innermost', async () => {
+    const res = await request(muzuServer.server).get('/intercepted/upper');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({data: {message: 'HELLO'}});
+  });
+
+  it('should let interceptors skip the handler', async () => {
+    await request(muzuServer.server).get('/intercepted/cached');
+    const res = await request(muzuServer.server).get('/intercepted/cached');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({data: {calls: 1}});
+    expect(handlerCalls).toBe(1);
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  MuzuServer,
+  Controller,
+  Post,
+  Patch,
+  Body,
+  ValidateBody,
+  IsString,
+  IsInt,
+  IsEmail,
+  IsRequired,
+  IsBoolean,
+  IsOptional,
+  MinLength,
+  PartialType,
+  PickType,
+  OmitType,
+  IntersectionType,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class BaseUserDto {
+  @IsString()
+  @IsRequired()
+  name = '';
+}
+
+class CreateUserDto extends BaseUserDto {
+  // Adds a rule to the inherited property
+  @MinLength(3)
+  declare name: string;
+
+  @IsEmail()
+  @IsRequired()
+  email = '';
+
+  @IsInt()
+  @IsOptional()
+  age = 18;
+}
+
+class UpdateUserDto extends PartialType(CreateUserDto) {
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+}
+
+class LoginDto extends PickType(CreateUserDto, ['email'] as const) {}
+
+class ProfileDto extends OmitType(CreateUserDto, ['email'] as const) {}
+
+class AuditDto {
+  @IsString()
+  @IsRequired()
+  reason = '';
+}
+
+class AuditedUpdateDto extends IntersectionType(UpdateUserDto, AuditDto) {}
+
+@Controller('/mapped')
+class UsersController {
+  @Post('/users')
+  @ValidateBody(CreateUserDto)
+  create(@Body() user: CreateUserDto) {
+    return user;
+  }
+
+  @Patch('/users')
+  @ValidateBody(UpdateUserDto, {transform: true})
+  update(@Body() user: UpdateUserDto) {
+    return {
+      keys: Object.keys(user).filter(key => user[key as 'name'] !== undefined),
+    };
+  }
+
+  @Post('/login')
+  @ValidateBody(LoginDto, {forbidNonWhitelisted: true})
+  login(@Body() login: LoginDto) {
+    return login;
+  }
+
+  @Post('/profiles')
+  @ValidateBody(ProfileDto, {transform: true})
+  profile(@Body() profile: ProfileDto) {
+    return profile;
+  }
+
+  @Patch('/audited')
+  @ValidateBody(AuditedUpdateDto)
+  audited(@Body() update: AuditedUpdateDto) {
+    return update;
+  }
+}
+
+const muzuServer = new MuzuServer({
+  swagger: {info: {title: 'Mapped', version: '1.0.0'}},
+});
+const port = 3023;
+muzuServer.listen(port);
+
+const post = (path: string, body: object) =>
+  request(muzuServer.server).post(path).send(body);
+const patch = (path: string, body: object) =>
+  request(muzuServer.server).patch(path).send(body);
+
+describe('Mapped Types', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should validate inherited rules', async () => {
+    const res = await post('/mapped/users', {name: 'Al', email: 'al@x.io'});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      expect.objectContaining({field: 'name', constraint: 'minLength'}),
+    ]);
+
+    const missing = await post('/mapped/users', {email: 'ada@x.io'});
+    expect(missing.body.errors[0]).toEqual(
+      expect.objectContaining({field: 'name', constraint: 'isRequired'})
+    );
+  });
+
+  it('should make every property optional with PartialType', async () => {
+    const empty = await patch('/mapped/users', {});
+    expect(empty.status).toBe(200);
+    // Defaults are not copied, so omitted fields are not overwritten
+    expect(empty.body).toEqual({keys: []});
+
+    const invalid = await patch('/mapped/users', {age: 'old', active: 'yes'});
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors.map((e: {field: string}) => e.field)).toEqual([
+      'age',
+      'active',
+    ]);
+  });
+
+  it('should keep only picked properties with PickType', async () => {
+    const res = await post('/mapped/login', {email: 'ada@x.io', name: 'Ada'});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      expect.objectContaining({
+        field: 'name',
+        constraint: 'whitelistValidation',
+      }),
+    ]);
+
+    const ok = await post('/mapped/login', {email: 'ada@x.io'});
+    expect(ok.status).toBe(200);
+  });
+
+  it('should drop omitted properties and keep defaults with OmitType', async () => {
+    const res = await post('/mapped/profiles', {name: 'Ada'});
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({name: 'Ada', age: 18});
+  });
+
+  it('should combine classes with IntersectionType', async () => {
+    const res = await patch('/mapped/audited', {name: 'Ada'});
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0]).toEqual(
+      expect.objectContaining({field: 'reason', constraint: 'isRequired'})
+    );
+
+    const ok = await patch('/mapped/audited', {reason: 'typo'});
+    expect(ok.status).toBe(200);
+  });
+
+  it('should document inherited and mapped DTOs in Swagger', async () => {
+    const res = await request(muzuServer.server).get('/swagger.json');
+    const schemaOf = (path: string, method: string) =>
+      res.body.paths[path][method].requestBody.content['application/json']
+        .schema;
+
+    const create = schemaOf('/mapped/users', 'post');
+    expect(Object.keys(create.properties)).toEqual(['name', 'email', 'age']);
+    expect(create.required).toEqual(['name', 'email']);
+    expect(create.properties.name).toEqual({type: 'string', minLength: 3});
+
+    const update = schemaOf('/mapped/users', 'patch');
+    expect(Object.keys(update.properties)).toEqual([
+      'name',
+      'email',
+      'age',
+      'active',
+    ]);
+    expect(update.required).toBeUndefined();
+
+    expect(Object.keys(schemaOf('/mapped/login', 'post').properties)).toEqual([
+      'email',
+    ]);
+  });
+});
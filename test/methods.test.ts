@@ -8,6 +8,8 @@ import {
   Delete,
   Put,
   Patch,
+  Options,
+  All,
   clearRegistry,
 } from '../lib';
 import * as request from 'supertest';
@@ -40,6 +42,16 @@ class TestController {
     return {message: 'Patch Method Called'};
   }
 
+  @Options('/custom-options')
+  customOptions() {
+    return {message: 'Options Method Called'};
+  }
+
+  @All('/any')
+  any(req: Request) {
+    return {message: 'All Method Called', method: req.method};
+  }
+
   asyncReturn() {
     return new Promise(resolve => {
       setTimeout(() => {
@@ -115,6 +127,51 @@ describe('MuzuServer', () => {
     });
   });
 
+  it('should return 405 with Allow header for an unregistered method', async () => {
+    const res = await request(muzuServer.server).get('/api/async-hello');
+    expect(res.status).toEqual(405);
+    expect(res.headers.allow).toEqual('POST, OPTIONS');
+    expect(res.body).toEqual({
+      kind: 'MuzuException',
+      message: 'Method GET not allowed for /api/async-hello',
+      status: 405,
+      allowedMethods: ['POST', 'OPTIONS'],
+      details: {
+        method: 'GET',
+        path: '/api/async-hello',
+      },
+    });
+  });
+
+  it('should serve HEAD /api/hello from the GET route without a body', async () => {
+    const res = await request(muzuServer.server).head('/api/hello');
+    expect(res.status).toEqual(200);
+    expect(res.headers['content-type']).toEqual('application/json');
+    expect(res.text).toBeUndefined();
+  });
+
+  it('should answer OPTIONS /api/hello with the allowed methods', async () => {
+    const res = await request(muzuServer.server).options('/api/hello');
+    expect(res.status).toEqual(204);
+    expect(res.headers.allow).toEqual(
+      'GET, POST, DELETE, PUT, PATCH, HEAD, OPTIONS'
+    );
+  });
+
+  it('should use an explicit @Options route when registered', async () => {
+    const res = await request(muzuServer.server).options('/api/custom-options');
+    expect(res.status).toEqual(200);
+    expect(res.body).toEqual({message: 'Options Method Called'});
+  });
+
+  it('should match an @All route for any method', async () => {
+    const getRes = await request(muzuServer.server).get('/api/any');
+    expect(getRes.body).toEqual({message: 'All Method Called', method: 'GET'});
+
+    const putRes = await request(muzuServer.server).put('/api/any').send({});
+    expect(putRes.body).toEqual({message: 'All Method Called', method: 'PUT'});
+  });
+
   it('should return 400 on POST /api/hello', async () => {
     const res = await request(muzuServer.server)
       .post('/api/hello')
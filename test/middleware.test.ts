@@ -1,10 +1,15 @@
 import {
   MuzuServer,
   Request,
+  Response,
+  NextFunction,
   HttpException,
   Controller,
   Get,
   Middleware,
+  Post,
+  ValidateBody,
+  IsString,
   clearRegistry,
 } from '../lib';
 import * as request from 'supertest';
@@ -25,6 +30,60 @@ function Admin() {
   throw new HttpException(403, 'Unauthorized');
 }
 
+function GlobalTrace(req: Request) {
+  req.trace = ['global'];
+}
+
+function ControllerTrace(req: Request) {
+  req.trace.push('controller');
+}
+
+function RouteTrace(req: Request) {
+  req.trace.push('route');
+}
+
+async function Timing(req: Request, res: Response, next: NextFunction) {
+  const result = await next();
+  res.setHeader('X-Handled-After', 'true');
+  return result;
+}
+
+async function Envelope(req: Request, res: Response, next: NextFunction) {
+  const data = await next();
+  return {data};
+}
+
+function Maintenance(req: Request, res: Response, _next: NextFunction) {
+  res.writeHead(503, {'Content-Type': 'application/json'});
+  res.end(JSON.stringify({message: 'Under maintenance'}));
+}
+
+function Forward(req: Request, res: Response, next: NextFunction) {
+  // Calls next() without awaiting or returning it
+  next();
+}
+
+function Replace(req: Request, res: Response, next: NextFunction) {
+  next();
+  return {replaced: true};
+}
+
+let bodyMiddlewareCalls = 0;
+
+function ReadBody(req: Request) {
+  bodyMiddlewareCalls++;
+  req.bodyInMiddleware = req.body;
+}
+
+class NoteDto {
+  @IsString()
+  text = '';
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+let handlerCalls = 0;
+
 async function AsyncLogger(): Promise<void> {
   return new Promise(resolve => {
     setTimeout(() => {
@@ -69,8 +128,77 @@ class TestController {
   }
 }
 
+@Controller('/notes')
+class NoteController {
+  @Post('/')
+  @ValidateBody(NoteDto)
+  @Middleware(ReadBody)
+  create(req: Request) {
+    return {bodyInMiddleware: req.bodyInMiddleware ?? null, body: req.body};
+  }
+}
+
+@Controller('/traced')
+@Middleware(ControllerTrace)
+class TracedController {
+  @Get('/controller')
+  controllerOnly(req: Request) {
+    return {trace: req.trace};
+  }
+
+  @Get('/route')
+  @Middleware(RouteTrace)
+  withRoute(req: Request) {
+    return {trace: req.trace};
+  }
+}
+
+@Controller('/onion')
+class OnionController {
+  @Get('/timing')
+  @Middleware(Timing)
+  timing() {
+    return {message: 'Timed'};
+  }
+
+  @Get('/envelope')
+  @Middleware(Envelope)
+  envelope() {
+    return {message: 'Wrapped'};
+  }
+
+  @Get('/forward')
+  @Middleware(Forward)
+  async forward() {
+    await delay(20);
+    return {message: 'Forwarded'};
+  }
+
+  @Get('/forward-error')
+  @Middleware(Forward)
+  async forwardError() {
+    await delay(20);
+    throw new HttpException(409, 'Late failure');
+  }
+
+  @Get('/replace-error')
+  @Middleware(Replace)
+  async replaceError() {
+    await delay(20);
+    throw new HttpException(409, 'Late failure');
+  }
+
+  @Get('/maintenance')
+  @Middleware(Maintenance)
+  maintenance() {
+    handlerCalls++;
+    return {message: 'Should not be called'};
+  }
+}
+
 const muzuServer = new MuzuServer();
 const port = 3001;
+muzuServer.use(GlobalTrace);
 muzuServer.listen(port);
 
 describe('MuzuServer', () => {
@@ -128,6 +256,95 @@ describe('MuzuServer', () => {
       })
     );
   });
+
+  it('should apply controller middleware to every route of the controller', async () => {
+    const res = await request(muzuServer.server).get('/traced/controller');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({trace: ['global', 'controller']});
+  });
+
+  it('should run onion middleware code after the handler', async () => {
+    const res = await request(muzuServer.server).get('/onion/timing');
+    expect(res.status).toBe(200);
+    expect(res.headers['x-handled-after']).toBe('true');
+    expect(res.body).toEqual({message: 'Timed'});
+  });
+
+  it('should let onion middleware replace the handler result', async () => {
+    const res = await request(muzuServer.server).get('/onion/envelope');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({data: {message: 'Wrapped'}});
+  });
+
+  it('should not run the handler once a middleware ended the response', async () => {
+    const res = await request(muzuServer.server).get('/onion/maintenance');
+    expect(res.status).toBe(503);
+    expect(res.body).toEqual({message: 'Under maintenance'});
+    expect(handlerCalls).toBe(0);
+  });
+
+  it('should wait for the handler when next() is not awaited', async () => {
+    const res = await request(muzuServer.server).get('/onion/forward');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({message: 'Forwarded'});
+
+    const failed = await request(muzuServer.server).get('/onion/forward-error');
+    expect(failed.status).toBe(409);
+  });
+
+  it('should surface handler errors when middleware returns without awaiting next()', async () => {
+    const res = await request(muzuServer.server).get('/onion/replace-error');
+    expect(res.status).toBe(409);
+  });
+
+  it('should run middleware before the body is parsed and validated', async () => {
+    const res = await request(muzuServer.server)
+      .post('/notes')
+      .send({text: 'hello'});
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({bodyInMiddleware: null, body: {text: 'hello'}});
+
+    const invalid = await request(muzuServer.server)
+      .post('/notes')
+      .send({text: 42});
+    expect(invalid.status).toBe(400);
+    expect(bodyMiddlewareCalls).toBe(2);
+  });
+
+  it('should run global, controller and route middleware in order', async () => {
+    const res = await request(muzuServer.server).get('/traced/route');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({trace: ['global', 'controller', 'route']});
+  });
+
+  it('should apply global enhancers to server.Controller routes', async () => {
+    const legacyServer = new MuzuServer();
+
+    @legacyServer.Controller('legacy')
+    class LegacyController {
+      @Get('trace')
+      trace(req: Request) {
+        return {trace: req.trace};
+      }
+    }
+
+    legacyServer.use(GlobalTrace);
+    legacyServer.useInterceptors({
+      intercept: async ({handler}, next) => ({
+        data: await next(),
+        originalHandler: handler === LegacyController.prototype.trace,
+      }),
+    });
+    legacyServer.listen(3025);
+
+    const res = await request(legacyServer.server).get('/legacy/trace');
+    await new Promise<void>(resolve => legacyServer.stop(resolve));
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      data: {trace: ['global']},
+      originalHandler: true,
+    });
+  });
 });
 
 muzuServer.stop(() => {
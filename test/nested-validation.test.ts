@@ -0,0 +1,157 @@
+import {
+  MuzuServer,
+  Controller,
+  Post,
+  Body,
+  ValidateBody,
+  ValidateNested,
+  Type,
+  IsString,
+  IsInt,
+  IsArray,
+  IsOptional,
+  Matches,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class GeoDto {
+  @IsInt()
+  lat = 0;
+}
+
+class AddressDto {
+  @IsString()
+  street = '';
+
+  @Matches(/^\d{5}$/)
+  zip = '';
+
+  // No @Type: resolved from the declared property type
+  @ValidateNested()
+  geo: GeoDto = new GeoDto();
+}
+
+class CategoryDto {
+  @IsString()
+  name = '';
+
+  @IsArray()
+  @ValidateNested()
+  @Type(() => CategoryDto)
+  @IsOptional()
+  children?: CategoryDto[];
+}
+
+class CustomerDto {
+  @IsString()
+  name = '';
+
+  @ValidateNested()
+  @Type(() => AddressDto)
+  address = new AddressDto();
+
+  @ValidateNested()
+  @Type(() => CategoryDto)
+  @IsOptional()
+  category?: CategoryDto;
+}
+
+@Controller('/nested')
+class NestedController {
+  @Post('/customers')
+  @ValidateBody(CustomerDto)
+  create(@Body() customer: CustomerDto) {
+    return customer;
+  }
+}
+
+const muzuServer = new MuzuServer({
+  swagger: {info: {title: 'Nested', version: '1.0.0'}},
+});
+const port = 3017;
+muzuServer.listen(port);
+
+const validCustomer = {
+  name: 'Ada',
+  address: {street: 'Main', zip: '12345', geo: {lat: 41}},
+};
+
+describe('Nested Validation', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should accept valid nested objects', async () => {
+    const res = await request(muzuServer.server)
+      .post('/nested/customers')
+      .send(validCustomer);
+    expect(res.status).toBe(200);
+  });
+
+  it('should report nested errors with dotted paths', async () => {
+    const res = await request(muzuServer.server)
+      .post('/nested/customers')
+      .send({
+        name: 'Ada',
+        address: {street: 'Main', zip: 'abc', geo: {lat: 'north'}},
+      });
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      expect.objectContaining({field: 'address.zip', constraint: 'matches'}),
+      expect.objectContaining({field: 'address.geo.lat', constraint: 'isInt'}),
+    ]);
+  });
+
+  it('should reject non-object values', async () => {
+    const res = await request(muzuServer.server)
+      .post('/nested/customers')
+      .send({name: 'Ada', address: 'Main street'});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      {
+        field: 'address',
+        constraint: 'validateNested',
+        value: 'Main street',
+        message: 'address must be an object',
+      },
+    ]);
+  });
+
+  it('should validate recursive DTOs and arrays of nested objects', async () => {
+    const res = await request(muzuServer.server)
+      .post('/nested/customers')
+      .send({
+        ...validCustomer,
+        category: {
+          name: 'Root',
+          children: [{name: 'Child', children: [{name: 42}]}],
+        },
+      });
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      expect.objectContaining({
+        field: 'category.children[0].children[0].name',
+        constraint: 'isString',
+      }),
+    ]);
+  });
+
+  it('should document nested schemas in Swagger', async () => {
+    const res = await request(muzuServer.server).get('/swagger.json');
+    const schema =
+      res.body.paths['/nested/customers'].post.requestBody.content[
+        'application/json'
+      ].schema;
+
+    expect(schema.properties.address.properties.geo).toEqual({
+      type: 'object',
+      properties: {lat: {type: 'integer'}},
+    });
+    expect(schema.properties.category.properties.children).toEqual({
+      type: 'array',
+      items: {type: 'object'},
+    });
+  });
+});
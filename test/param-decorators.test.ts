@@ -0,0 +1,146 @@
+import {
+  MuzuServer,
+  Request,
+  Response,
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Body,
+  Headers,
+  Req,
+  Res,
+  IsString,
+  IsInt,
+  IsOptional,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class CreateCommentDto {
+  @IsString()
+  text = '';
+}
+
+class ListCommentsQuery {
+  @IsInt()
+  page = 0;
+
+  @IsString()
+  @IsOptional()
+  sort?: string;
+}
+
+@Controller('/posts')
+class PostsController {
+  @Get('/:id')
+  findOne(
+    @Param('id') id: string,
+    @Query('id') queryId: string,
+    @Headers('X-Tenant') tenant: string
+  ) {
+    return {id, queryId, tenant};
+  }
+
+  @Get('/:id/comments')
+  comments(
+    @Param() params: Record<string, string>,
+    @Query() query: ListCommentsQuery
+  ) {
+    return {params, query};
+  }
+
+  @Post('/:id/comments')
+  async createComment(
+    @Param('id') id: string,
+    @Body() comment: CreateCommentDto,
+    @Body('text') text: string
+  ) {
+    return {id, comment, text};
+  }
+
+  @Get('/:id/raw')
+  raw(@Req() req: Request, @Res() res: Response) {
+    res.statusCode = 202;
+    return {url: req.url, pathParams: req.pathParams, query: req.query};
+  }
+}
+
+const muzuServer = new MuzuServer({
+  swagger: {info: {title: 'Posts', version: '1.0.0'}},
+});
+const port = 3013;
+muzuServer.listen(port);
+
+describe('Parameter Decorators', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should keep path, query and header values separate', async () => {
+    const res = await request(muzuServer.server)
+      .get('/posts/42?id=7')
+      .set('X-Tenant', 'acme');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({id: '42', queryId: '7', tenant: 'acme'});
+  });
+
+  it('should inject whole path and query objects', async () => {
+    const res = await request(muzuServer.server).get(
+      '/posts/42/comments?page=2&sort=desc'
+    );
+    expect(res.body).toEqual({
+      params: {id: '42'},
+      query: {page: '2', sort: 'desc'},
+    });
+  });
+
+  it('should inject the body and body properties in async handlers', async () => {
+    const res = await request(muzuServer.server)
+      .post('/posts/42/comments')
+      .send({text: 'Nice post'});
+    expect(res.body).toEqual({
+      id: '42',
+      comment: {text: 'Nice post'},
+      text: 'Nice post',
+    });
+  });
+
+  it('should inject the raw request and response', async () => {
+    const res = await request(muzuServer.server).get('/posts/42/raw?a=1');
+    expect(res.status).toBe(202);
+    expect(res.body).toEqual({
+      url: '/posts/42/raw?a=1',
+      pathParams: {id: '42'},
+      query: {a: '1'},
+    });
+  });
+
+  it('should document decorated parameters in Swagger', async () => {
+    const res = await request(muzuServer.server).get('/swagger.json');
+    const findOne = res.body.paths['/posts/{id}'].get;
+    const comments = res.body.paths['/posts/{id}/comments'];
+
+    expect(findOne.parameters).toEqual([
+      {name: 'id', in: 'path', required: true, schema: {type: 'string'}},
+      {name: 'id', in: 'query', required: false, schema: {type: 'string'}},
+      {
+        name: 'X-Tenant',
+        in: 'header',
+        required: false,
+        schema: {type: 'string'},
+      },
+    ]);
+    expect(comments.get.parameters).toEqual(
+      expect.arrayContaining([
+        {name: 'page', in: 'query', required: false, schema: {type: 'integer'}},
+        {name: 'sort', in: 'query', required: false, schema: {type: 'string'}},
+      ])
+    );
+    expect(
+      comments.post.requestBody.content['application/json'].schema
+    ).toEqual({type: 'object', properties: {text: {type: 'string'}}});
+  });
+});
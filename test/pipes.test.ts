@@ -0,0 +1,175 @@
+import {
+  MuzuServer,
+  Controller,
+  Get,
+  Post,
+  Param,
+  Query,
+  Body,
+  ParseIntPipe,
+  ParseBoolPipe,
+  ParseUUIDPipe,
+  ParseEnumPipe,
+  DefaultValuePipe,
+  PipeTransform,
+  ArgumentMetadata,
+  BadRequestException,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+enum Status {
+  Draft = 'draft',
+  Published = 'published',
+}
+
+enum Priority {
+  Low = 1,
+  High = 2,
+}
+
+class TrimPipe implements PipeTransform<string, string> {
+  transform(value: string) {
+    return value.trim();
+  }
+}
+
+class AsyncLookupPipe implements PipeTransform<number> {
+  async transform(value: number, metadata: ArgumentMetadata) {
+    if (value > 100) {
+      throw new BadRequestException(`${metadata.name} is unknown`);
+    }
+    return {id: value, name: `Item ${value}`};
+  }
+}
+
+@Controller('/pipes')
+class PipesController {
+  @Get('/items/:id')
+  item(@Param('id', ParseIntPipe, AsyncLookupPipe) item: object) {
+    return item;
+  }
+
+  @Get('/list')
+  list(
+    @Query('page', new DefaultValuePipe('1'), ParseIntPipe) page: number,
+    @Query('archived', new DefaultValuePipe(false), ParseBoolPipe)
+    archived: boolean,
+    @Query('status', new ParseEnumPipe(Status)) status: Status
+  ) {
+    return {page, archived, status};
+  }
+
+  @Get('/priority/:priority')
+  priority(@Param('priority', new ParseEnumPipe(Priority)) priority: Priority) {
+    return {priority};
+  }
+
+  @Get('/uuid/:id')
+  uuid(@Param('id', new ParseUUIDPipe({version: 4})) id: string) {
+    return {id};
+  }
+
+  @Post('/names')
+  name(@Body('name', new TrimPipe()) name: string) {
+    return {name};
+  }
+}
+
+const muzuServer = new MuzuServer();
+const port = 3014;
+muzuServer.listen(port);
+
+describe('Pipes', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should chain pipes, including async ones', async () => {
+    const res = await request(muzuServer.server).get('/pipes/items/7');
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({id: 7, name: 'Item 7'});
+  });
+
+  it('should reject invalid integers with a ValidationError', async () => {
+    const res = await request(muzuServer.server).get('/pipes/items/abc');
+    expect(res.status).toBe(400);
+    expect(res.body).toEqual({
+      kind: 'MuzuException',
+      status: 400,
+      message: 'id must be an integer',
+      details: {
+        field: 'id',
+        constraint: 'isInt',
+        value: 'abc',
+        message: 'id must be an integer',
+      },
+    });
+  });
+
+  it('should surface errors thrown by custom pipes', async () => {
+    const res = await request(muzuServer.server).get('/pipes/items/101');
+    expect(res.status).toBe(400);
+    expect(res.body.message).toBe('id is unknown');
+  });
+
+  it('should apply default values before parsing', async () => {
+    const res = await request(muzuServer.server).get(
+      '/pipes/list?status=draft'
+    );
+    expect(res.body).toEqual({page: 1, archived: false, status: 'draft'});
+
+    const parsed = await request(muzuServer.server).get(
+      '/pipes/list?page=3&archived=true&status=published'
+    );
+    expect(parsed.body).toEqual({page: 3, archived: true, status: 'published'});
+  });
+
+  it('should reject invalid booleans and enum values', async () => {
+    const bool = await request(muzuServer.server).get(
+      '/pipes/list?archived=yes&status=draft'
+    );
+    expect(bool.status).toBe(400);
+    expect(bool.body.details.constraint).toBe('isBoolean');
+
+    const enumRes = await request(muzuServer.server).get(
+      '/pipes/list?status=deleted'
+    );
+    expect(enumRes.status).toBe(400);
+    expect(enumRes.body.message).toBe(
+      'status must be one of: draft, published'
+    );
+  });
+
+  it('should convert numeric enum values', async () => {
+    const res = await request(muzuServer.server).get('/pipes/priority/2');
+    expect(res.body).toEqual({priority: Priority.High});
+
+    const invalid = await request(muzuServer.server).get('/pipes/priority/3');
+    expect(invalid.body.message).toBe('priority must be one of: 1, 2');
+  });
+
+  it('should validate UUIDs and their version', async () => {
+    const v4 = '3b241101-e2bb-4255-8caf-4136c566a962';
+    const v1 = 'a8098c1a-f86e-11da-bd1a-00112444be1e';
+
+    const ok = await request(muzuServer.server).get(`/pipes/uuid/${v4}`);
+    expect(ok.body).toEqual({id: v4});
+
+    const wrongVersion = await request(muzuServer.server).get(
+      `/pipes/uuid/${v1}`
+    );
+    expect(wrongVersion.status).toBe(400);
+    expect(wrongVersion.body.message).toBe(
+      'id must be a valid UUID (version 4)'
+    );
+  });
+
+  it('should run pipes on body properties', async () => {
+    const res = await request(muzuServer.server)
+      .post('/pipes/names')
+      .send({name: '  Muzu  '});
+    expect(res.body).toEqual({name: 'Muzu'});
+  });
+});
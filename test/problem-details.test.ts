@@ -0,0 +1,121 @@
+import {
+  MuzuServer,
+  Controller,
+  Get,
+  Post,
+  Request,
+  HttpException,
+  IsString,
+  ValidateBody,
+  ApiResponse,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class CreateItemDto {
+  @IsString()
+  name = '';
+}
+
+@Controller('/items')
+class ItemsController {
+  @Get('/:id')
+  @ApiResponse({status: 404, description: 'Item not found'})
+  findOne(req: Request) {
+    throw new HttpException(404, `Item ${req.params!.id} not found`, {
+      id: req.params!.id,
+    });
+  }
+
+  @Post('/')
+  @ValidateBody(CreateItemDto)
+  create() {
+    return {created: true};
+  }
+
+  @Get('/crash')
+  crash() {
+    throw new Error('Boom');
+  }
+}
+
+const muzuServer = new MuzuServer({
+  errorFormat: 'problem',
+  mode: 'production',
+  swagger: {info: {title: 'Items', version: '1.0.0'}},
+});
+const port = 3011;
+muzuServer.listen(port);
+
+describe('Problem Details Error Format', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should render MuzuExceptions as problem+json', async () => {
+    const res = await request(muzuServer.server).get('/items/42');
+    expect(res.status).toBe(404);
+    expect(res.headers['content-type']).toBe('application/problem+json');
+    expect(JSON.parse(res.text)).toEqual({
+      type: 'about:blank',
+      title: 'Not Found',
+      status: 404,
+      detail: 'Item 42 not found',
+      instance: '/items/42',
+      details: {id: '42'},
+    });
+  });
+
+  it('should expose validation errors as an extension member', async () => {
+    const res = await request(muzuServer.server).post('/items').send({name: 5});
+    const body = JSON.parse(res.text);
+    expect(res.status).toBe(400);
+    expect(body.title).toBe('Bad Request');
+    expect(body.detail).toBe('Body validation failed');
+    expect(body.errors).toEqual([
+      expect.objectContaining({field: 'name', constraint: 'isString'}),
+    ]);
+  });
+
+  it('should render unknown errors without leaking the stack', async () => {
+    const res = await request(muzuServer.server).get('/items/crash');
+    const body = JSON.parse(res.text);
+    expect(res.status).toBe(500);
+    expect(res.headers['content-type']).toBe('application/problem+json');
+    expect(body).toEqual({
+      type: 'about:blank',
+      title: 'Internal Server Error',
+      status: 500,
+      detail: 'An unexpected error occurred',
+      instance: '/items/crash',
+      correlationId: expect.any(String),
+    });
+  });
+
+  it('should keep the Allow header on 405 problems', async () => {
+    const res = await request(muzuServer.server).delete('/items/42');
+    const body = JSON.parse(res.text);
+    expect(res.status).toBe(405);
+    expect(res.headers['allow']).toBe('GET, HEAD, OPTIONS');
+    expect(body.allowedMethods).toEqual(['GET', 'HEAD', 'OPTIONS']);
+  });
+
+  it('should document error responses as problem+json', async () => {
+    const res = await request(muzuServer.server).get('/swagger.json');
+    const operation = res.body.paths['/items/{id}'].get;
+    const problemRef = {$ref: '#/components/schemas/ProblemDetails'};
+
+    expect(res.body.components.schemas.ProblemDetails.required).toEqual([
+      'type',
+      'title',
+      'status',
+    ]);
+    expect(operation.responses['404'].content).toEqual({
+      'application/problem+json': {schema: problemRef},
+    });
+    expect(operation.responses.default.content).toEqual({
+      'application/problem+json': {schema: problemRef},
+    });
+  });
+});
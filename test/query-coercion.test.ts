@@ -0,0 +1,168 @@
+import {
+  MuzuServer,
+  Request,
+  Controller,
+  Get,
+  Query,
+  ValidateQuery,
+  IsArray,
+  IsBoolean,
+  IsDate,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+enum Sort {
+  Asc = 'asc',
+  Desc = 'desc',
+}
+
+enum Level {
+  Low = 1,
+  High = 2,
+}
+
+class ListQuery {
+  @IsInt()
+  @Min(1)
+  page = 1;
+
+  @IsNumber()
+  @IsOptional()
+  ratio?: number;
+
+  @IsBoolean()
+  @IsOptional()
+  active?: boolean;
+
+  @IsDate()
+  @IsOptional()
+  since?: Date;
+
+  @IsEnum(Sort)
+  @IsOptional()
+  sort?: Sort;
+
+  @IsEnum(Level)
+  @IsOptional()
+  level?: Level;
+
+  @IsArray()
+  @IsOptional()
+  tags?: string[];
+
+  @IsString()
+  @IsOptional()
+  search?: string;
+}
+
+@Controller('/coercion')
+class CoercionController {
+  @Get('/list')
+  @ValidateQuery(ListQuery)
+  list(@Query() query: ListQuery) {
+    const types: Record<string, string> = {};
+    for (const [key, value] of Object.entries(query)) {
+      types[key] = value instanceof Date ? 'date' : typeof value;
+    }
+    return {query, types};
+  }
+
+  @Get('/legacy/:id')
+  @ValidateQuery(ListQuery)
+  legacy(req: Request) {
+    return {page: req.params!.page, id: req.params!.id};
+  }
+}
+
+const muzuServer = new MuzuServer();
+const port = 3015;
+muzuServer.listen(port);
+
+describe('Query Coercion', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should convert query values to the declared types', async () => {
+    const res = await request(muzuServer.server).get(
+      '/coercion/list?page=2&ratio=0.5&active=true&since=2024-01-02' +
+        '&sort=desc&level=2&tags=a,b&search=42'
+    );
+    expect(res.status).toBe(200);
+    expect(res.body.query).toEqual({
+      page: 2,
+      ratio: 0.5,
+      active: true,
+      since: '2024-01-02T00:00:00.000Z',
+      sort: 'desc',
+      level: 2,
+      tags: ['a', 'b'],
+      search: '42',
+    });
+    expect(res.body.types).toEqual({
+      page: 'number',
+      ratio: 'number',
+      active: 'boolean',
+      since: 'date',
+      sort: 'string',
+      level: 'number',
+      tags: 'object',
+      search: 'string',
+    });
+  });
+
+  it('should still reject values that cannot be converted', async () => {
+    const res = await request(muzuServer.server).get(
+      '/coercion/list?page=abc&active=maybe&level=3'
+    );
+    expect(res.status).toBe(400);
+    expect(res.body.errors.map((e: {field: string}) => e.field)).toEqual([
+      'page',
+      'active',
+      'level',
+    ]);
+    expect(res.body.errors[0].value).toBe('abc');
+  });
+
+  it('should only convert decimal numbers', async () => {
+    const res = await request(muzuServer.server).get(
+      '/coercion/list?page=0x10&ratio=Infinity'
+    );
+    expect(res.status).toBe(400);
+    expect(res.body.errors.map((e: {value: unknown}) => e.value)).toEqual([
+      '0x10',
+      'Infinity',
+    ]);
+
+    const exponent = await request(muzuServer.server).get(
+      '/coercion/list?page=1e3&ratio=-1.5'
+    );
+    expect(exponent.status).toBe(400);
+    expect(exponent.body.errors).toEqual([
+      expect.objectContaining({field: 'page', value: '1e3'}),
+    ]);
+  });
+
+  it('should validate converted values against other constraints', async () => {
+    const res = await request(muzuServer.server).get('/coercion/list?page=0');
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      expect.objectContaining({field: 'page', constraint: 'min', value: 0}),
+    ]);
+  });
+
+  it('should expose converted values through req.params', async () => {
+    const res = await request(muzuServer.server).get(
+      '/coercion/legacy/7?page=3'
+    );
+    expect(res.body).toEqual({page: 3, id: '7'});
+  });
+});
@@ -0,0 +1,150 @@
+import {
+  MuzuServer,
+  Request,
+  Controller,
+  Get,
+  Query,
+  ValidateQuery,
+  IsArray,
+  ArrayItem,
+  ArrayMaxSize,
+  IsString,
+  IsOptional,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class SortField {
+  @IsString()
+  field = '';
+}
+
+class SearchQuery {
+  @IsArray()
+  @ArrayMaxSize(3)
+  @IsOptional()
+  tag?: string[];
+
+  @IsArray()
+  @ArrayItem(() => SortField)
+  @IsOptional()
+  sort?: SortField[];
+}
+
+@Controller('/query')
+class QueryController {
+  @Get('/raw')
+  raw(req: Request) {
+    return req.query;
+  }
+
+  @Get('/search')
+  @ValidateQuery(SearchQuery)
+  search(@Query() query: SearchQuery) {
+    return query;
+  }
+}
+
+const muzuServer = new MuzuServer({
+  queryParser: {depth: 2, parameterLimit: 5},
+});
+const port = 3016;
+muzuServer.listen(port);
+
+describe('Query Parsing', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should collect repeated keys into arrays', async () => {
+    const res = await request(muzuServer.server).get(
+      '/query/raw?tag=a&tag=b&single=c'
+    );
+    expect(res.body).toEqual({tag: ['a', 'b'], single: 'c'});
+  });
+
+  it('should parse empty and numeric brackets as arrays', async () => {
+    const res = await request(muzuServer.server).get(
+      '/query/raw?ids[]=1&ids[]=2&items[1]=y&items[0]=x'
+    );
+    expect(res.body).toEqual({ids: ['1', '2'], items: ['x', 'y']});
+  });
+
+  it('should parse bracketed keys into nested objects', async () => {
+    const res = await request(muzuServer.server).get(
+      '/query/raw?filter[status]=open&filter[owner][name]=ada%20l'
+    );
+    expect(res.body).toEqual({
+      filter: {status: 'open', owner: {name: 'ada l'}},
+    });
+  });
+
+  it('should keep brackets beyond the depth limit in the key', async () => {
+    const res = await request(muzuServer.server).get('/query/raw?a[b][c][d]=1');
+    expect(res.body).toEqual({a: {b: {c: {'[d]': '1'}}}});
+  });
+
+  it('should ignore parameters beyond the parameter limit', async () => {
+    const res = await request(muzuServer.server).get(
+      '/query/raw?p1=1&p2=2&p3=3&p4=4&p5=5&p6=6'
+    );
+    expect(Object.keys(res.body)).toEqual(['p1', 'p2', 'p3', 'p4', 'p5']);
+  });
+
+  it('should ignore prototype keys', async () => {
+    const res = await request(muzuServer.server).get(
+      '/query/raw?__proto__[polluted]=1&constructor[prototype][x]=1&ok=1'
+    );
+    expect(res.body).toEqual({ok: '1'});
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  it('should not resolve keys to Object.prototype members', async () => {
+    const res = await request(muzuServer.server).get(
+      '/query/raw?hasOwnProperty[polluted]=yes'
+    );
+    expect(res.body).toEqual({hasOwnProperty: {polluted: 'yes'}});
+    expect(
+      (Object.prototype.hasOwnProperty as unknown as {polluted?: string})
+        .polluted
+    ).toBeUndefined();
+  });
+
+  it('should keep keys named like Object.prototype members', async () => {
+    const res = await request(muzuServer.server).get(
+      '/query/raw?toString=x&valueOf=1'
+    );
+    expect(res.body).toEqual({toString: 'x', valueOf: '1'});
+  });
+
+  it('should validate repeated keys with @IsArray', async () => {
+    const ok = await request(muzuServer.server).get(
+      '/query/search?tag=a&tag=b'
+    );
+    expect(ok.status).toBe(200);
+    expect(ok.body).toEqual({tag: ['a', 'b']});
+
+    const single = await request(muzuServer.server).get('/query/search?tag=a');
+    expect(single.body).toEqual({tag: ['a']});
+
+    const tooMany = await request(muzuServer.server).get(
+      '/query/search?tag=a&tag=b&tag=c&tag=d'
+    );
+    expect(tooMany.status).toBe(400);
+    expect(tooMany.body.errors[0].constraint).toBe('arrayMaxSize');
+  });
+
+  it('should validate nested array items', async () => {
+    const ok = await request(muzuServer.server).get(
+      '/query/search?sort[0][field]=name&sort[1][field]=age'
+    );
+    expect(ok.body).toEqual({sort: [{field: 'name'}, {field: 'age'}]});
+
+    const invalid = await request(muzuServer.server).get(
+      '/query/search?sort[0][other]=name'
+    );
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors[0].field).toBe('sort[0].field');
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  MuzuServer,
+  Request,
+  Controller,
+  Get,
+  RouteConflictException,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+const port = 3005;
+
+describe('Route Conflict Detection', () => {
+  beforeEach(() => {
+    clearRegistry();
+  });
+
+  afterAll(() => {
+    clearRegistry();
+  });
+
+  it('should fail when two controllers register the same method and path', () => {
+    @Controller('users')
+    class UserController {
+      @Get(':id')
+      getUser() {
+        return {source: 'user'};
+      }
+    }
+
+    @Controller('users')
+    class AdminController {
+      @Get(':id')
+      getAdmin() {
+        return {source: 'admin'};
+      }
+    }
+
+    expect(() => new MuzuServer().listen(port)).toThrow(RouteConflictException);
+    expect(() => new MuzuServer().listen(port)).toThrow(
+      'Route conflict: GET /users/:id (AdminController.getAdmin) duplicates GET /users/:id (UserController.getUser)'
+    );
+  });
+
+  it('should fail when param names differ at the same depth', () => {
+    @Controller('users')
+    class UserController {
+      @Get(':id')
+      getUser() {
+        return {};
+      }
+
+      @Get(':userId/posts')
+      getPosts() {
+        return {};
+      }
+    }
+
+    expect(() => new MuzuServer().listen(port)).toThrow(
+      "Route conflict: GET /users/:userId/posts (UserController.getPosts) uses segment ':userId' where GET /users/:id (UserController.getUser) uses ':id' at the same position"
+    );
+  });
+
+  it('should let the later route win when overrides are allowed', async () => {
+    @Controller('users')
+    class UserController {
+      @Get(':id')
+      getUser() {
+        return {source: 'user'};
+      }
+    }
+
+    @Controller('users')
+    class AdminController {
+      @Get(':id')
+      getAdmin(req: Request) {
+        return {source: 'admin', id: req.params?.id};
+      }
+    }
+
+    const muzuServer = new MuzuServer({allowRouteOverride: true});
+    muzuServer.listen(port);
+
+    const res = await request(muzuServer.server).get('/users/1');
+    expect(res.status).toEqual(200);
+    expect(res.body).toEqual({source: 'admin', id: '1'});
+    await new Promise<void>(resolve => muzuServer.stop(resolve));
+  });
+
+  it('should still fail on differing param names when overrides are allowed', () => {
+    @Controller('users')
+    class UserController {
+      @Get(':id')
+      getUser() {
+        return {};
+      }
+
+      @Get(':userId/posts')
+      getPosts() {
+        return {};
+      }
+    }
+
+    expect(() =>
+      new MuzuServer({allowRouteOverride: true}).listen(port)
+    ).toThrow(
+      "Route conflict: GET /users/:userId/posts (UserController.getPosts) uses segment ':userId' where GET /users/:id (UserController.getUser) uses ':id' at the same position"
+    );
+  });
+});
@@ -5,6 +5,7 @@ import {
   Get,
   Controller,
   clearRegistry,
+  SwaggerGenerator,
 } from '../lib';
 import * as request from 'supertest';
 
@@ -54,6 +55,61 @@ class PostController {
   }
 }
 
+@Controller('files')
+class FileController {
+  @Get('readme')
+  getReadme() {
+    return {file: 'readme'};
+  }
+
+  @Get(':id')
+  getFile(req: Request) {
+    return {fileId: req.params?.id};
+  }
+
+  @Get('*path')
+  getFilePath(req: Request) {
+    return {path: req.params?.path};
+  }
+}
+
+@Controller('orders')
+class OrderController {
+  @Get(':id(\\d+)')
+  getOrder(req: Request) {
+    return {orderId: req.params?.id};
+  }
+
+  @Get(':slug([a-z-]+)')
+  getOrderBySlug(req: Request) {
+    return {slug: req.params?.slug};
+  }
+}
+
+@Controller('codes')
+class CodeController {
+  @Get(':code([A-Z]{3})')
+  getCode(req: Request) {
+    return {code: req.params?.code};
+  }
+}
+
+@Controller('docs')
+class DocsController {
+  @Get(':lang(en|tr)?/intro')
+  getIntro(req: Request) {
+    return {lang: req.params?.lang ?? 'default'};
+  }
+}
+
+@Controller('app')
+class AppController {
+  @Get('*')
+  fallback(req: Request) {
+    return {fallback: req.params?.wildcard};
+  }
+}
+
 const muzuServer = new MuzuServer();
 const port = 3004;
 muzuServer.listen(port);
@@ -109,6 +165,94 @@ describe('RouteTree Routing with Path Parameters', () => {
       limit: '10',
     });
   });
+
+  it('should capture the remainder of the path into a named wildcard', async () => {
+    const res = await request(muzuServer.server).get(
+      '/files/docs/guide/intro.md'
+    );
+    expect(res.status).toEqual(200);
+    expect(res.body).toEqual({path: 'docs/guide/intro.md'});
+  });
+
+  it('should require at least one segment for a named wildcard', async () => {
+    const res = await request(muzuServer.server).get('/files');
+    expect(res.status).toEqual(404);
+  });
+
+  it('should document wildcard routes like the router matches them', () => {
+    const {paths} = new SwaggerGenerator(
+      {info: {title: 'Routes', version: '1.0.0'}},
+      muzuServer.routeManager
+    ).generate();
+    expect(Object.keys(paths)).toEqual(
+      expect.arrayContaining(['/files/{path}', '/app/{wildcard}', '/app'])
+    );
+    expect(paths['/files']).toBeUndefined();
+  });
+
+  it('should keep the original case of param and wildcard values', async () => {
+    const wildcardRes = await request(muzuServer.server).get(
+      '/files/Docs/README.md'
+    );
+    expect(wildcardRes.body).toEqual({path: 'Docs/README.md'});
+
+    const paramRes = await request(muzuServer.server).get('/Users/AbC');
+    expect(paramRes.status).toEqual(200);
+    expect(paramRes.body.userId).toEqual('AbC');
+  });
+
+  it('should prefer static and param matches over wildcard', async () => {
+    const staticRes = await request(muzuServer.server).get('/files/readme');
+    expect(staticRes.body).toEqual({file: 'readme'});
+
+    const paramRes = await request(muzuServer.server).get('/files/42');
+    expect(paramRes.body).toEqual({fileId: '42'});
+  });
+
+  it('should match a param only when its constraint passes', async () => {
+    const idRes = await request(muzuServer.server).get('/orders/123');
+    expect(idRes.status).toEqual(200);
+    expect(idRes.body).toEqual({orderId: '123'});
+
+    const slugRes = await request(muzuServer.server).get('/orders/first-order');
+    expect(slugRes.status).toEqual(200);
+    expect(slugRes.body).toEqual({slug: 'first-order'});
+
+    const missRes = await request(muzuServer.server).get('/orders/a_1');
+    expect(missRes.status).toEqual(404);
+  });
+
+  it('should test constraints against the original segment', async () => {
+    const res = await request(muzuServer.server).get('/codes/ABC');
+    expect(res.status).toEqual(200);
+    expect(res.body).toEqual({code: 'ABC'});
+
+    const lowerRes = await request(muzuServer.server).get('/codes/abc');
+    expect(lowerRes.status).toEqual(404);
+  });
+
+  it('should match routes with and without an optional segment', async () => {
+    const withLang = await request(muzuServer.server).get('/docs/tr/intro');
+    expect(withLang.status).toEqual(200);
+    expect(withLang.body).toEqual({lang: 'tr'});
+
+    const withoutLang = await request(muzuServer.server).get('/docs/intro');
+    expect(withoutLang.status).toEqual(200);
+    expect(withoutLang.body).toEqual({lang: 'default'});
+
+    const invalidLang = await request(muzuServer.server).get('/docs/de/intro');
+    expect(invalidLang.status).toEqual(404);
+  });
+
+  it('should match an unnamed catch-all route', async () => {
+    const res = await request(muzuServer.server).get('/app/settings/profile');
+    expect(res.status).toEqual(200);
+    expect(res.body).toEqual({fallback: 'settings/profile'});
+
+    const rootRes = await request(muzuServer.server).get('/app');
+    expect(rootRes.status).toEqual(200);
+    expect(rootRes.body).toEqual({fallback: ''});
+  });
 });
 
 muzuServer.stop(() => {
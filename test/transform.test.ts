@@ -0,0 +1,196 @@
+import {
+  MuzuServer,
+  Controller,
+  Post,
+  Body,
+  ValidateBody,
+  ValidateNested,
+  Type,
+  ArrayItem,
+  IsArray,
+  IsDate,
+  IsInt,
+  IsString,
+  IsOptional,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class TicketDto {
+  @IsString()
+  code = '';
+
+  describe() {
+    return `ticket ${this.code}`;
+  }
+}
+
+class VenueDto {
+  @IsString()
+  name = '';
+
+  @IsString()
+  city = 'Lisbon';
+}
+
+class CreateEventDto {
+  @IsString()
+  title = '';
+
+  @IsDate()
+  startsAt!: Date;
+
+  @IsInt()
+  capacity = 50;
+
+  @ValidateNested()
+  @Type(() => VenueDto)
+  @IsOptional()
+  venue?: VenueDto;
+
+  @IsArray()
+  @ArrayItem(() => TicketDto)
+  @IsOptional()
+  tickets?: TicketDto[];
+
+  get isFull() {
+    return (this.tickets?.length ?? 0) >= this.capacity;
+  }
+}
+
+@Controller('/transform')
+class TransformController {
+  @Post('/events')
+  @ValidateBody(CreateEventDto, {transform: true})
+  create(@Body() event: CreateEventDto) {
+    return {
+      isInstance: event instanceof CreateEventDto,
+      startsAt: event.startsAt.getUTCFullYear(),
+      capacity: event.capacity,
+      isFull: event.isFull,
+      venue: event.venue && {
+        isInstance: event.venue instanceof VenueDto,
+        city: event.venue.city,
+      },
+      tickets: event.tickets?.map(ticket => ticket.describe()),
+    };
+  }
+
+  @Post('/strict')
+  @ValidateBody(CreateEventDto, {transform: true, forbidNonWhitelisted: true})
+  strict(@Body() event: CreateEventDto) {
+    return {isFull: event.isFull};
+  }
+
+  @Post('/plain')
+  @ValidateBody(TicketDto)
+  plain(@Body() ticket: TicketDto) {
+    return {isInstance: ticket instanceof TicketDto};
+  }
+}
+
+const muzuServer = new MuzuServer();
+const port = 3019;
+muzuServer.listen(port);
+
+describe('Payload Transformation', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should hand the handler a DTO instance with defaults', async () => {
+    const res = await request(muzuServer.server)
+      .post('/transform/events')
+      .send({title: 'Launch', startsAt: '2026-03-01T10:00:00Z'});
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      isInstance: true,
+      startsAt: 2026,
+      capacity: 50,
+      isFull: false,
+    });
+  });
+
+  it('should instantiate nested and array item DTOs', async () => {
+    const res = await request(muzuServer.server)
+      .post('/transform/events')
+      .send({
+        title: 'Launch',
+        startsAt: '2026-03-01T10:00:00Z',
+        capacity: 2,
+        venue: {name: 'Hall'},
+        tickets: [{code: 'A1'}, {code: 'B2'}],
+      });
+    expect(res.status).toBe(200);
+    expect(res.body.isFull).toBe(true);
+    expect(res.body.venue).toEqual({isInstance: true, city: 'Lisbon'});
+    expect(res.body.tickets).toEqual(['ticket A1', 'ticket B2']);
+  });
+
+  it('should still reject invalid values', async () => {
+    const res = await request(muzuServer.server)
+      .post('/transform/events')
+      .send({title: 'Launch', startsAt: 'tomorrow', tickets: ['A1']});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      expect.objectContaining({field: 'startsAt', constraint: 'isDate'}),
+      expect.objectContaining({field: 'tickets[0]', constraint: 'arrayItem'}),
+    ]);
+  });
+
+  it('should not change the prototype through __proto__ keys', async () => {
+    const res = await request(muzuServer.server)
+      .post('/transform/events')
+      .set('Content-Type', 'application/json')
+      .send('{"startsAt":"2026-03-01","__proto__":{"isFull":"yes"}}');
+    expect(res.status).toBe(200);
+    expect(res.body.isInstance).toBe(true);
+    expect(res.body.isFull).toBe(false);
+  });
+
+  it('should not overwrite getters or methods', async () => {
+    const res = await request(muzuServer.server)
+      .post('/transform/events')
+      .send({
+        startsAt: '2026-03-01',
+        isFull: true,
+        tickets: [{code: 'A1', describe: 'x'}],
+      });
+    expect(res.status).toBe(200);
+    expect(res.body.isFull).toBe(false);
+    expect(res.body.tickets).toEqual(['ticket A1']);
+  });
+
+  it('should report getter and method keys as non-whitelisted', async () => {
+    const res = await request(muzuServer.server)
+      .post('/transform/strict')
+      .send({
+        startsAt: '2026-03-01',
+        isFull: true,
+        tickets: [{code: 'A1', describe: 'x'}],
+      });
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      {
+        field: 'isFull',
+        constraint: 'whitelistValidation',
+        value: true,
+        message: 'property isFull should not exist',
+      },
+      {
+        field: 'tickets[0].describe',
+        constraint: 'whitelistValidation',
+        value: 'x',
+        message: 'property describe should not exist',
+      },
+    ]);
+  });
+
+  it('should keep plain objects without the transform option', async () => {
+    const res = await request(muzuServer.server)
+      .post('/transform/plain')
+      .send({code: 'A1'});
+    expect(res.body).toEqual({isInstance: false});
+  });
+});
@@ -0,0 +1,181 @@
+import {
+  MuzuServer,
+  Controller,
+  Post,
+  Put,
+  Body,
+  ValidateBody,
+  ValidateIf,
+  ValidateNested,
+  Type,
+  ArrayItem,
+  IsArray,
+  IsString,
+  IsEmail,
+  IsRequired,
+  IsOptional,
+  MinLength,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class ContactDto {
+  @IsString()
+  method = 'email';
+
+  @ValidateIf(contact => contact.method === 'email')
+  @IsEmail()
+  @IsRequired()
+  email?: string;
+}
+
+class UserDto {
+  @IsRequired({groups: ['create']})
+  @IsString()
+  @IsOptional()
+  @MinLength(3, {groups: ['create']})
+  name?: string;
+
+  @IsString({groups: ['update']})
+  @IsOptional()
+  reason?: string;
+
+  @ValidateNested()
+  @Type(() => ContactDto)
+  @IsOptional()
+  contact?: ContactDto;
+
+  @IsArray()
+  @ArrayItem(() => ContactDto, {groups: ['create']})
+  @IsOptional()
+  backups?: ContactDto[];
+}
+
+@Controller('/groups')
+class UsersController {
+  @Post('/users')
+  @ValidateBody(UserDto, {groups: ['create']})
+  create(@Body() user: UserDto) {
+    return user;
+  }
+
+  @Put('/users')
+  @ValidateBody(UserDto, {groups: ['update']})
+  update(@Body() user: UserDto) {
+    return user;
+  }
+
+  @Post('/contacts')
+  @ValidateBody(ContactDto)
+  contact(@Body() contact: ContactDto) {
+    return contact;
+  }
+}
+
+const muzuServer = new MuzuServer({
+  swagger: {info: {title: 'Groups', version: '1.0.0'}},
+});
+const port = 3021;
+muzuServer.listen(port);
+
+describe('Validation Groups', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should apply rules of the selected group', async () => {
+    const res = await request(muzuServer.server)
+      .post('/groups/users')
+      .send({name: 'Al', reason: 42});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      expect.objectContaining({field: 'name', constraint: 'minLength'}),
+    ]);
+
+    const missing = await request(muzuServer.server)
+      .post('/groups/users')
+      .send({});
+    expect(missing.body.errors[0].constraint).toBe('isRequired');
+  });
+
+  it('should skip rules of other groups', async () => {
+    const res = await request(muzuServer.server)
+      .put('/groups/users')
+      .send({name: 'Al'});
+    expect(res.status).toBe(200);
+
+    const invalid = await request(muzuServer.server)
+      .put('/groups/users')
+      .send({reason: 42});
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.errors[0].field).toBe('reason');
+  });
+
+  it('should always apply rules without groups', async () => {
+    const res = await request(muzuServer.server)
+      .put('/groups/users')
+      .send({name: 42});
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0].constraint).toBe('isString');
+  });
+
+  it('should apply @ArrayItem only for its groups', async () => {
+    const backups = [{method: 'email'}];
+    const created = await request(muzuServer.server)
+      .post('/groups/users')
+      .send({name: 'Ada', backups});
+    expect(created.status).toBe(400);
+    expect(created.body.errors[0]).toEqual(
+      expect.objectContaining({
+        field: 'backups[0].email',
+        constraint: 'isRequired',
+      })
+    );
+
+    const updated = await request(muzuServer.server)
+      .put('/groups/users')
+      .send({backups});
+    expect(updated.status).toBe(200);
+  });
+
+  it('should skip rules when the @ValidateIf condition is false', async () => {
+    const phone = await request(muzuServer.server)
+      .post('/groups/contacts')
+      .send({method: 'phone'});
+    expect(phone.status).toBe(200);
+
+    const email = await request(muzuServer.server)
+      .post('/groups/contacts')
+      .send({method: 'email', email: 'nope'});
+    expect(email.status).toBe(400);
+    expect(email.body.errors[0].constraint).toBe('isEmail');
+  });
+
+  it('should evaluate @ValidateIf in nested DTOs', async () => {
+    const res = await request(muzuServer.server)
+      .post('/groups/users')
+      .send({name: 'Ada', contact: {method: 'email'}});
+    expect(res.status).toBe(400);
+    expect(res.body.errors[0]).toEqual(
+      expect.objectContaining({
+        field: 'contact.email',
+        constraint: 'isRequired',
+      })
+    );
+  });
+
+  it('should document the rules of the route groups in Swagger', async () => {
+    const res = await request(muzuServer.server).get('/swagger.json');
+    const schemaOf = (method: string) =>
+      res.body.paths['/groups/users'][method].requestBody.content[
+        'application/json'
+      ].schema;
+
+    expect(schemaOf('post').required).toEqual(['name']);
+    expect(schemaOf('post').properties.name.minLength).toBe(3);
+    expect(schemaOf('put').required).toBeUndefined();
+    expect(schemaOf('put').properties.name.minLength).toBeUndefined();
+    expect(schemaOf('post').properties.contact.required).toBeUndefined();
+  });
+});
@@ -0,0 +1,205 @@
+import {
+  MuzuServer,
+  Controller,
+  Post,
+  Body,
+  ValidateBody,
+  ValidateNested,
+  Type,
+  IsString,
+  IsInt,
+  MinLength,
+  Max,
+  IsArray,
+  IsOptional,
+  ArrayItem,
+  clearRegistry,
+  selectMessageCatalog,
+} from '../lib';
+import * as request from 'supertest';
+
+class AddressDto {
+  @IsString()
+  city = '';
+}
+
+class SignupDto {
+  @IsString()
+  @MinLength(3, {message: '{property} needs {constraintValue}+ characters'})
+  username = '';
+
+  @IsInt({
+    message: ({property, value}) =>
+      `${property} "${value}" is not a whole number`,
+  })
+  @Max(120)
+  age = 0;
+
+  @ValidateNested()
+  @Type(() => AddressDto)
+  address = new AddressDto();
+
+  @IsArray()
+  @ArrayItem(() => AddressDto, {message: '{property} must be an address'})
+  @IsOptional()
+  previousAddresses?: AddressDto[];
+}
+
+class CategoryDto {
+  @IsString()
+  name = '';
+
+  @IsArray()
+  @ValidateNested()
+  @Type(() => CategoryDto)
+  @IsOptional()
+  children?: CategoryDto[];
+}
+
+@Controller('/messages')
+class SignupController {
+  @Post('/signup')
+  @ValidateBody(SignupDto)
+  signup(@Body() signup: SignupDto) {
+    return signup;
+  }
+
+  @Post('/categories')
+  @ValidateBody(CategoryDto)
+  createCategory(@Body() category: CategoryDto) {
+    return category;
+  }
+}
+
+const catalogs = {
+  fr: {
+    isString: '{property} doit être une chaîne',
+    max: '{property} doit être au plus {constraintValue}',
+    minLength: 'ignored: the decorator message wins',
+  },
+  'pt-BR': {
+    isString: '{property} deve ser um texto',
+  },
+};
+
+const muzuServer = new MuzuServer({
+  validationMessages: {catalogs},
+});
+const port = 3022;
+muzuServer.listen(port);
+
+const invalidSignup = {
+  username: 'al',
+  age: 'old',
+  address: {city: 7},
+};
+
+describe('Validation Messages', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should use decorator messages', async () => {
+    const res = await request(muzuServer.server)
+      .post('/messages/signup')
+      .send(invalidSignup);
+    expect(res.status).toBe(400);
+    expect(res.body.errors.map((e: {message: string}) => e.message)).toEqual([
+      'username needs 3+ characters',
+      'age "old" is not a whole number',
+      'city must be a string',
+    ]);
+  });
+
+  it('should translate messages from the Accept-Language catalog', async () => {
+    const res = await request(muzuServer.server)
+      .post('/messages/signup')
+      .set('Accept-Language', 'de;q=0.4, fr-CH, en;q=0.8')
+      .send({username: 42, age: 150, address: {city: 7}});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      {
+        field: 'username',
+        constraint: 'isString',
+        value: 42,
+        message: 'username doit être une chaîne',
+      },
+      {
+        field: 'age',
+        constraint: 'max',
+        value: 150,
+        message: 'age doit être au plus 120',
+      },
+      {
+        field: 'address.city',
+        constraint: 'isString',
+        value: 7,
+        message: 'city doit être une chaîne',
+      },
+    ]);
+  });
+
+  it('should translate messages of recursive DTOs', async () => {
+    const res = await request(muzuServer.server)
+      .post('/messages/categories')
+      .set('Accept-Language', 'fr')
+      .send({name: 'Root', children: [{name: 42}]});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      {
+        field: 'children[0].name',
+        constraint: 'isString',
+        value: 42,
+        message: 'name doit être une chaîne',
+      },
+    ]);
+  });
+
+  it('should use @ArrayItem messages for items that are not objects', async () => {
+    const res = await request(muzuServer.server)
+      .post('/messages/signup')
+      .send({
+        username: 'alice',
+        age: 30,
+        address: {city: 'Lisbon'},
+        previousAddresses: ['Porto'],
+      });
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      {
+        field: 'previousAddresses[0]',
+        constraint: 'arrayItem',
+        value: 'Porto',
+        message: 'previousAddresses[0] must be an address',
+      },
+    ]);
+  });
+
+  it('should prefer decorator messages over catalogs', async () => {
+    const res = await request(muzuServer.server)
+      .post('/messages/signup')
+      .set('Accept-Language', 'fr')
+      .send(invalidSignup);
+    expect(res.body.errors[0].message).toBe('username needs 3+ characters');
+  });
+
+  it('should fall back to built-in messages for unknown languages', async () => {
+    const res = await request(muzuServer.server)
+      .post('/messages/signup')
+      .set('Accept-Language', 'ja')
+      .send({username: 42, age: 30, address: {city: 'Lisbon'}});
+    expect(res.body.errors[0].message).toBe('username must be a string');
+  });
+
+  it('should negotiate the best matching catalog', () => {
+    const options = {catalogs, defaultLocale: 'fr'};
+    expect(selectMessageCatalog('pt-br', options)).toBe(catalogs['pt-BR']);
+    expect(selectMessageCatalog('pt-PT, fr;q=0.5', options)).toBe(
+      catalogs['pt-BR']
+    );
+    expect(selectMessageCatalog('en, fr;q=0', options)).toBe(catalogs.fr);
+    expect(selectMessageCatalog(undefined, options)).toBe(catalogs.fr);
+    expect(selectMessageCatalog('en', {catalogs})).toBeUndefined();
+  });
+});
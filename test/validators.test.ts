@@ -0,0 +1,200 @@
+import {
+  MuzuServer,
+  Controller,
+  Post,
+  Body,
+  ValidateBody,
+  IsIn,
+  IsNotEmpty,
+  IsIP,
+  IsISO8601,
+  IsDateString,
+  IsJSON,
+  IsHexColor,
+  IsAlphanumeric,
+  IsPhoneNumber,
+  IsObject,
+  MinDate,
+  MaxDate,
+  ArrayUnique,
+  ArrayContains,
+  IsSemVer,
+  IsBase64,
+  IsOptional,
+  compileValidator,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class CatalogueDto {
+  @IsIn(['draft', 'published'])
+  @IsOptional()
+  status?: string;
+
+  @IsNotEmpty()
+  @IsOptional()
+  title?: string;
+
+  @IsIP()
+  @IsOptional()
+  ip?: string;
+
+  @IsIP(4)
+  @IsOptional()
+  ipv4?: string;
+
+  @IsISO8601()
+  @IsOptional()
+  publishedAt?: string;
+
+  @IsDateString()
+  @IsOptional()
+  day?: string;
+
+  @IsJSON()
+  @IsOptional()
+  payload?: string;
+
+  @IsHexColor()
+  @IsOptional()
+  color?: string;
+
+  @IsAlphanumeric()
+  @IsOptional()
+  code?: string;
+
+  @IsPhoneNumber()
+  @IsOptional()
+  phone?: string;
+
+  @IsObject()
+  @IsOptional()
+  meta?: object;
+
+  @MinDate(new Date('2026-01-01T00:00:00Z'))
+  @MaxDate(new Date('2026-12-31T00:00:00Z'))
+  @IsOptional()
+  eventDate?: Date;
+
+  @ArrayUnique()
+  @ArrayContains(['base'])
+  @IsOptional()
+  roles?: string[];
+
+  @IsSemVer()
+  @IsOptional()
+  version?: string;
+
+  @IsBase64()
+  @IsOptional()
+  avatar?: string;
+}
+
+const validate = compileValidator(CatalogueDto) as (
+  obj: unknown
+) => {field: string; constraint: string}[];
+
+const cases: [string, unknown[], unknown[]][] = [
+  ['status', ['draft', 'published'], ['archived', 1]],
+  ['title', ['a'], ['']],
+  ['ip', ['10.0.0.1', '::1'], ['10.0.0.256', 'localhost', 42]],
+  ['ipv4', ['192.168.1.1'], ['::1']],
+  ['publishedAt', ['2026-03-01', '2026-03-01T10:00:00.000Z'], ['03/01/2026']],
+  ['day', ['2026-03-01T10:00:00+02:00'], ['2026-13-01', 'tomorrow']],
+  ['payload', ['{"a":1}', '[1]'], ['{a:1}', '42', '']],
+  ['color', ['#fff', 'ff00aa', '#ff00aa80'], ['#ggg', 'red']],
+  ['code', ['abc123'], ['abc-123', '']],
+  ['phone', ['+14155552671'], ['4155552671', '+0123', '+1234567890123456']],
+  ['meta', [{}, {a: 1}], [[], 'x']],
+  [
+    'eventDate',
+    [new Date('2026-06-01T00:00:00Z')],
+    [new Date('2025-12-31T00:00:00Z'), new Date('2027-01-01T00:00:00Z')],
+  ],
+  ['roles', [['base', 'admin']], [['admin'], ['base', 'base']]],
+  ['version', ['1.2.3', '1.0.0-rc.1+build.5'], ['1.2', 'v1.2.3']],
+  ['avatar', ['aGVsbG8=', 'aGk='], ['aGVsbG8', 'not base64!']],
+];
+
+@Controller('/validators')
+class CatalogueController {
+  @Post()
+  @ValidateBody(CatalogueDto)
+  create(@Body() body: CatalogueDto) {
+    return body;
+  }
+}
+
+const muzuServer = new MuzuServer({
+  swagger: {info: {title: 'Validators', version: '1.0.0'}},
+});
+const port = 3024;
+muzuServer.listen(port);
+
+describe('Validator Catalogue', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it.each(cases)('should validate %s', (field, valid, invalid) => {
+    for (const value of valid) {
+      expect(validate({[field]: value})).toEqual([]);
+    }
+    for (const value of invalid) {
+      const errors = validate({[field]: value});
+      expect(errors.length).toBeGreaterThan(0);
+      expect(errors.every(error => error.field === field)).toBe(true);
+    }
+  });
+
+  it('should report the constraint and message', async () => {
+    const res = await request(muzuServer.server)
+      .post('/validators')
+      .send({phone: '555-1234', roles: ['admin', 'admin']});
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      {
+        field: 'phone',
+        constraint: 'isPhoneNumber',
+        value: '555-1234',
+        message: 'phone must be a valid E.164 phone number',
+      },
+      {
+        field: 'roles',
+        constraint: 'arrayContains',
+        value: ['admin', 'admin'],
+        message: 'roles must contain all of the required values',
+      },
+      {
+        field: 'roles',
+        constraint: 'arrayUnique',
+        value: ['admin', 'admin'],
+        message: 'roles must not contain duplicate items',
+      },
+    ]);
+  });
+
+  it('should document the validators in Swagger', async () => {
+    const res = await request(muzuServer.server).get('/swagger.json');
+    const {properties} =
+      res.body.paths['/validators'].post.requestBody.content['application/json']
+        .schema;
+
+    expect(properties.status).toEqual({
+      type: 'string',
+      enum: ['draft', 'published'],
+    });
+    expect(properties.title).toEqual({type: 'string', minLength: 1});
+    expect(properties.ipv4).toEqual({type: 'string', format: 'ipv4'});
+    expect(properties.publishedAt.format).toBe('date-time');
+    expect(properties.avatar.format).toBe('byte');
+    expect(properties.phone.pattern).toBe('^\\+[1-9]\\d{1,14}$');
+    expect(properties.meta.type).toBe('object');
+    expect(properties.roles).toEqual({
+      type: 'array',
+      uniqueItems: true,
+      description: 'Must contain "base"',
+    });
+  });
+});
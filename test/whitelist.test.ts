@@ -0,0 +1,126 @@
+import {
+  MuzuServer,
+  Request,
+  Controller,
+  Post,
+  ValidateBody,
+  ValidateNested,
+  ArrayItem,
+  IsArray,
+  Type,
+  IsString,
+  IsOptional,
+  clearRegistry,
+} from '../lib';
+import * as request from 'supertest';
+
+class TagDto {
+  @IsString()
+  name = '';
+}
+
+class ProfileDto {
+  @IsString()
+  bio = '';
+}
+
+class UpdateUserDto {
+  @IsString()
+  name = '';
+
+  @IsString()
+  @IsOptional()
+  nickname?: string;
+
+  @ValidateNested()
+  @Type(() => ProfileDto)
+  @IsOptional()
+  profile?: ProfileDto;
+
+  @IsArray()
+  @ArrayItem(() => TagDto)
+  @IsOptional()
+  tags?: TagDto[];
+}
+
+@Controller('/whitelist')
+class WhitelistController {
+  @Post('/strip')
+  @ValidateBody(UpdateUserDto, {whitelist: true})
+  strip(req: Request) {
+    return req.body;
+  }
+
+  @Post('/forbid')
+  @ValidateBody(UpdateUserDto, {forbidNonWhitelisted: true})
+  forbid(req: Request) {
+    return req.body;
+  }
+
+  @Post('/default')
+  @ValidateBody(UpdateUserDto)
+  keep(req: Request) {
+    return req.body;
+  }
+}
+
+const muzuServer = new MuzuServer();
+const port = 3018;
+muzuServer.listen(port);
+
+const payload = {
+  name: 'Ada',
+  isAdmin: true,
+  profile: {bio: 'Hi', verified: true},
+  tags: [{name: 'a', color: 'red'}],
+};
+
+describe('Whitelist Validation', () => {
+  afterAll(() => {
+    clearRegistry();
+    muzuServer.stop();
+  });
+
+  it('should strip undeclared properties at every level', async () => {
+    const res = await request(muzuServer.server)
+      .post('/whitelist/strip')
+      .send(payload);
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      name: 'Ada',
+      profile: {bio: 'Hi'},
+      tags: [{name: 'a'}],
+    });
+  });
+
+  it('should reject undeclared properties when forbidden', async () => {
+    const res = await request(muzuServer.server)
+      .post('/whitelist/forbid')
+      .send(payload);
+    expect(res.status).toBe(400);
+    expect(res.body.errors).toEqual([
+      {
+        field: 'isAdmin',
+        constraint: 'whitelistValidation',
+        value: true,
+        message: 'property isAdmin should not exist',
+      },
+      expect.objectContaining({field: 'profile.verified'}),
+      expect.objectContaining({field: 'tags[0].color'}),
+    ]);
+  });
+
+  it('should accept declared properties when forbidden', async () => {
+    const res = await request(muzuServer.server)
+      .post('/whitelist/forbid')
+      .send({name: 'Ada', nickname: 'ada'});
+    expect(res.status).toBe(200);
+  });
+
+  it('should keep undeclared properties by default', async () => {
+    const res = await request(muzuServer.server)
+      .post('/whitelist/default')
+      .send(payload);
+    expect(res.body).toEqual(payload);
+  });
+});